@@ -1,27 +1,122 @@
 "use client";
 
-import React, { useState, useEffect, useMemo } from "react";
-import * as XLSX from "xlsx";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
-  ResponsiveContainer,
-  BarChart,
-  Bar,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  Legend
-} from "recharts";
-
-type ParsedSheet = {
-  name: string;
-  headers: string[];
-  rows: (string | number | null)[][];
+  describeProgress,
+  progressPercent,
+  ParseProgress,
+  WorkbookWorkerRequest,
+  WorkbookWorkerResponse
+} from "../lib/parseWorkbook";
+import {
+  compileFilters,
+  emptyFilters,
+  FilterState,
+  hasActiveFilters
+} from "../lib/filters";
+import { nextSortKeys, SortKey, sortRows } from "../lib/sort";
+import { emptyPivotConfig, PivotConfig } from "../lib/pivot";
+import type { Aggregation } from "../lib/aggregate";
+import type { ColumnAggregates } from "../lib/grouping";
+import type { FormatRule } from "../lib/conditionalFormat";
+import { validateSheet, ValidationRule } from "../lib/validation";
+import { compileSearch, createSearchIndex } from "../lib/search";
+import { useDebouncedValue } from "../lib/useDebouncedValue";
+import {
+  ChartConfig,
+  defaultChartConfig,
+  emptyChartConfig
+} from "../lib/charts";
+import { uniqueSheetName } from "../lib/sheets";
+import {
+  COLUMN_TYPE_LABELS,
+  ColumnDetection,
+  detectColumns,
+  withTypeOverride
+} from "../lib/columnTypes";
+import {
+  CellChange,
+  cellKey,
+  CellEdit,
+  collectChanges,
+  EditHistory,
+  emptyHistory,
+  setCell
+} from "../lib/edits";
+import {
+  defaultSheetView,
+  headersMatch,
+  remapView,
+  SheetView,
+  TabId
+} from "../lib/viewState";
+import {
+  encodeViewHash,
+  LinkedView,
+  parseViewHash,
+  resolveLinkedView
+} from "../lib/urlState";
+import {
+  clearStorage,
+  createWorkbookId,
+  deleteWorkbook,
+  estimateSize,
+  listSessions,
+  loadWorkbook,
+  saveSession,
+  saveWorkbook,
+  StoredSession
+} from "../lib/storage";
+import { reheaderSheet } from "../lib/headers";
+import {
+  columnExpressions,
+  recomputeSheet,
+  setComputedColumns
+} from "../lib/formula";
+import { CsvOptions, isTextFile } from "../lib/csv";
+import { applySteps, CleanStep } from "../lib/cleaning";
+import type {
+  CellDetail,
+  CellValue,
+  ColumnType,
+  ComputedColumn,
+  ParsedSheet
+} from "../lib/types";
+import FilterPanel from "../components/FilterPanel";
+import FilterChips from "../components/FilterChips";
+import RecentFiles from "../components/RecentFiles";
+import HeaderRowControl from "../components/HeaderRowControl";
+import CsvImportDialog from "../components/CsvImportDialog";
+import PivotView from "../components/PivotView";
+import ChartView from "../components/ChartView";
+import ProfileView from "../components/ProfileView";
+import DataTable from "../components/DataTable";
+import ChangesPanel from "../components/ChangesPanel";
+import ComputedColumnsPanel from "../components/ComputedColumnsPanel";
+import FormatRulesPanel from "../components/FormatRulesPanel";
+import CleaningPanel from "../components/CleaningPanel";
+import ValidationPanel from "../components/ValidationPanel";
+import JoinDialog from "../components/JoinDialog";
+import CompareDialog from "../components/CompareDialog";
+import ExportMenu from "../components/ExportMenu";
+
+type PendingUpload = { reader: FileReader | null; worker: Worker | null };
+// Text file read and waiting for the import dialog
+type PendingCsvImport = {
+  fileName: string;
+  buffer: ArrayBuffer;
+  append: boolean;
+};
+// Cleaning steps run on a sheet, replayed from `base` to take one back out
+type CleaningRecipeState = {
+  base: ParsedSheet;
+  steps: CleanStep[];
+  // Sheet as the last step left it; anything else means it was edited since
+  result: ParsedSheet;
 };
 
-type SortDirection = "asc" | "desc" | null;
-type ColumnType = "numeric" | "categorical" | "date" | "unknown";
-type TabId = "table" | "insights";
+// Sheets with more rows than this search once typing pauses
+const DEBOUNCED_SEARCH_ROWS = 5000;
 
 export default function HomePage() {
   const [sheets, setSheets] = useState<ParsedSheet[]>([]);
@@ -29,38 +124,319 @@ export default function HomePage() {
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Local persistence: id of the open workbook in IndexedDB and the saved list
+  const [workbookId, setWorkbookId] = useState<string | null>(null);
+  const [recentFiles, setRecentFiles] = useState<StoredSession[]>([]);
+  const [storageNote, setStorageNote] = useState<string | null>(null);
+  // Sheets as last written/read, so unchanged rows aren't saved again
+  const savedSheetsRef = useRef<ParsedSheet[] | null>(null);
+  // View to restore instead of the defaults on the next sheet change
+  const pendingViewRef = useRef<SheetView | null>(null);
+  // View from a shared link, applied once a workbook with its sheet loads
+  const linkedViewRef = useRef<LinkedView | null>(null);
+
+  // Upload in flight: the reader/worker pair so it can be cancelled
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(
+    null
+  );
+  const uploadRef = useRef<PendingUpload | null>(null);
+  const [csvImport, setCsvImport] = useState<PendingCsvImport | null>(null);
+  const [showJoin, setShowJoin] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortColumnIndex, setSortColumnIndex] = useState<number | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [filters, setFilters] = useState<FilterState>(emptyFilters);
 
   const [columnVisibility, setColumnVisibility] = useState<boolean[]>([]);
+  // Manual column types chosen in the sidebar, keyed by column index
+  const [typeOverrides, setTypeOverrides] = useState<
+    Record<number, ColumnType>
+  >({});
+  const [groupBy, setGroupBy] = useState<number[]>([]);
+  const [columnAggregates, setColumnAggregates] = useState<ColumnAggregates>(
+    {}
+  );
+  const [formatRules, setFormatRules] = useState<FormatRule[]>([]);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>([]);
   const [activeTab, setActiveTab] = useState<TabId>("table");
 
   // For charts
-  const [chartCategoryIndex, setChartCategoryIndex] = useState<number | null>(
-    null
+  const [chartConfig, setChartConfig] = useState<ChartConfig>(emptyChartConfig);
+
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>(emptyPivotConfig);
+
+  // The states above hold the active sheet's view; other sheets' views are
+  // parked here by sheet name until they are switched back to
+  const [sheetViews, setSheetViews] = useState<Record<string, SheetView>>({});
+  // Sheet the view states currently belong to
+  const viewSheetRef = useRef<string | null>(null);
+
+  // Cell edits per sheet name, for undo/redo and the changes list
+  const [editHistories, setEditHistories] = useState<
+    Record<string, EditHistory>
+  >({});
+  const [showChanges, setShowChanges] = useState(false);
+  const [showComputed, setShowComputed] = useState(false);
+  const [showFormatRules, setShowFormatRules] = useState(false);
+  const [showCleaning, setShowCleaning] = useState(false);
+  const [showValidation, setShowValidation] = useState(false);
+  // Row the table should scroll to, from the validation issues list
+  const [focusRow, setFocusRow] = useState<{
+    row: number;
+    column?: number;
+  } | null>(null);
+  // Search lets words differ by a typo or two
+  const [fuzzySearch, setFuzzySearch] = useState(false);
+  // Search match the next/previous buttons last went to
+  const [hitIndex, setHitIndex] = useState(-1);
+  // Not saved with the session: the base copy would double its size
+  const [recipes, setRecipes] = useState<Record<string, CleaningRecipeState>>(
+    {}
   );
-  const [chartValueIndex, setChartValueIndex] = useState<number | null>(null);
+  // Grid shows Excel's formatted text, or the typed values behind it
+  const [showFormatted, setShowFormatted] = useState(true);
 
   const activeSheet = sheets[activeSheetIndex];
 
-  // When sheet changes: reset state
+  const currentView: SheetView = useMemo(
+    () => ({
+      searchQuery,
+      sortKeys,
+      filters,
+      columnVisibility,
+      typeOverrides,
+      groupBy,
+      columnAggregates,
+      formatRules,
+      validationRules,
+      activeTab,
+      chartConfig,
+      pivotConfig
+    }),
+    [
+      searchQuery,
+      sortKeys,
+      filters,
+      columnVisibility,
+      typeOverrides,
+      groupBy,
+      columnAggregates,
+      formatRules,
+      validationRules,
+      activeTab,
+      chartConfig,
+      pivotConfig
+    ]
+  );
+
+  function applyView(view: SheetView) {
+    setSearchQuery(view.searchQuery);
+    setSortKeys(view.sortKeys);
+    setFilters(view.filters);
+    setColumnVisibility(view.columnVisibility);
+    setTypeOverrides(view.typeOverrides);
+    // Views saved before table grouping/formatting/validation existed lack these
+    setGroupBy(view.groupBy ?? []);
+    setColumnAggregates(view.columnAggregates ?? {});
+    setFormatRules(view.formatRules ?? []);
+    setValidationRules(view.validationRules ?? []);
+    setActiveTab(view.activeTab);
+    // Older views' charts lack the time-series settings
+    setChartConfig({ ...emptyChartConfig, ...view.chartConfig });
+    setPivotConfig(view.pivotConfig);
+  }
+
+  // When sheet changes: park the old sheet's view and bring back the new one's
+  useEffect(() => {
+    const previous = viewSheetRef.current;
+    const pending = pendingViewRef.current;
+    pendingViewRef.current = null;
+    if (!pending && previous !== null && previous === activeSheet?.name) {
+      return;
+    }
+    if (previous !== null) {
+      setSheetViews((prev) => ({ ...prev, [previous]: currentView }));
+    }
+    viewSheetRef.current = activeSheet?.name ?? null;
+    applyView(
+      pending ??
+        (activeSheet && sheetViews[activeSheet.name]) ??
+        defaultSheetView(activeSheet)
+    );
+    setFocusRow(null);
+  }, [workbookId, activeSheetIndex, sheets.length]);
+
+  // Reopen the last workbook after a reload
+  useEffect(() => {
+    linkedViewRef.current = parseViewHash(window.location.hash);
+    listSessions()
+      .then((sessions) => {
+        setRecentFiles(sessions);
+        if (sessions.length) openRecent(sessions[0].id);
+      })
+      .catch((err) => console.error(err));
+  }, []);
+
+  // Keep the URL in sync so the view can be shared as a link
+  useEffect(() => {
+    if (!activeSheet) return;
+    const hash = encodeViewHash(activeSheet, currentView);
+    if (window.location.hash.slice(1) !== hash) {
+      window.history.replaceState(null, "", `#${hash}`);
+    }
+  }, [activeSheet, currentView]);
+
+  // A link pasted into this tab applies to the open workbook right away
+  useEffect(() => {
+    function onHashChange() {
+      linkedViewRef.current = parseViewHash(window.location.hash);
+      const linked = takeLinkedView(sheets);
+      if (!linked) return;
+      if (linked.index === activeSheetIndex) {
+        applyView(linked.view);
+      } else {
+        pendingViewRef.current = linked.view;
+        setActiveSheetIndex(linked.index);
+      }
+    }
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [sheets, activeSheetIndex]);
+
+  // Resolves the pending link against a freshly loaded workbook (once)
+  function takeLinkedView(loaded: ParsedSheet[]) {
+    const link = linkedViewRef.current;
+    if (!link) return null;
+    const resolved = resolveLinkedView(link, loaded);
+    if (resolved) linkedViewRef.current = null;
+    return resolved;
+  }
+
+  function copyViewLink() {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .catch((err) => console.error(err));
+  }
+
+  function refreshRecentFiles() {
+    listSessions()
+      .then(setRecentFiles)
+      .catch((err) => console.error(err));
+  }
+
+  function buildSession(id: string, name: string): StoredSession {
+    const views = { ...sheetViews };
+    if (activeSheet) views[activeSheet.name] = currentView;
+    return {
+      id,
+      fileName: name,
+      savedAt: Date.now(),
+      size: estimateSize(sheets),
+      sheetCount: sheets.length,
+      activeSheetIndex,
+      views,
+      edits: editHistories
+    };
+  }
+
+  // Save rows whenever they change (upload, edits, derived sheets)
+  useEffect(() => {
+    if (!workbookId || !fileName || !sheets.length) return;
+    if (sheets === savedSheetsRef.current) return;
+    const timer = setTimeout(() => {
+      savedSheetsRef.current = sheets;
+      saveWorkbook(buildSession(workbookId, fileName), sheets)
+        .then((result) => {
+          setStorageNote(result.reason ?? null);
+          refreshRecentFiles();
+        })
+        .catch((err) => console.error(err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [workbookId, sheets]);
+
+  // View changes only rewrite the (small) session record
   useEffect(() => {
-    if (activeSheet) {
-      setColumnVisibility(new Array(activeSheet.headers.length).fill(true));
-    } else {
-      setColumnVisibility([]);
+    if (!workbookId || !fileName || !activeSheet) return;
+    const timer = setTimeout(() => {
+      saveSession(buildSession(workbookId, fileName)).catch((err) =>
+        console.error(err)
+      );
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [workbookId, currentView, sheetViews, activeSheetIndex, editHistories]);
+
+  async function openRecent(id: string) {
+    if (id === workbookId) return;
+    try {
+      const stored = await loadWorkbook(id);
+      if (!stored) {
+        setError("That workbook is no longer saved.");
+        refreshRecentFiles();
+        return;
+      }
+      const { session, sheets: storedSheets } = stored;
+      const linked = takeLinkedView(storedSheets);
+      const index =
+        linked?.index ??
+        Math.min(session.activeSheetIndex, storedSheets.length - 1);
+
+      cancelUpload();
+      setError(null);
+      setStorageNote(null);
+      savedSheetsRef.current = storedSheets;
+      viewSheetRef.current = null;
+      pendingViewRef.current = linked?.view ?? null;
+      setSheetViews(session.views);
+      setWorkbookId(session.id);
+      setFileName(session.fileName);
+      setSheets(storedSheets);
+      setEditHistories(session.edits ?? {});
+      setRecipes({});
+      setActiveSheetIndex(index);
+    } catch (err) {
+      console.error(err);
+      setError("Unable to open the saved workbook.");
     }
-    setSearchQuery("");
-    setSortColumnIndex(null);
-    setSortDirection(null);
-    setActiveTab("table");
-    setChartCategoryIndex(null);
-    setChartValueIndex(null);
-  }, [activeSheetIndex, sheets.length]);
-
-  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+  }
+
+  function removeRecent(id: string) {
+    deleteWorkbook(id)
+      .then(refreshRecentFiles)
+      .catch((err) => console.error(err));
+    // Keep the open copy in memory, but stop saving it
+    if (id === workbookId) setWorkbookId(null);
+  }
+
+  function clearRecent() {
+    clearStorage()
+      .then(() => setRecentFiles([]))
+      .catch((err) => console.error(err));
+    setWorkbookId(null);
+    setStorageNote(null);
+  }
+
+  // Terminate the worker when the page unmounts
+  useEffect(() => () => cancelUpload(), []);
+
+  function cancelUpload() {
+    const upload = uploadRef.current;
+    if (!upload) return;
+    upload.reader?.abort();
+    upload.worker?.terminate();
+    uploadRef.current = null;
+    setParseProgress(null);
+  }
+
+  // `append` adds the file's sheets to the open session instead of replacing it
+  function handleFileChange(
+    e: React.ChangeEvent<HTMLInputElement>,
+    append = false
+  ) {
     const file = e.target.files?.[0];
+    // Allow re-selecting the same file after a cancel
+    e.target.value = "";
     setError(null);
 
     if (!file) return;
@@ -68,118 +444,214 @@ export default function HomePage() {
     if (
       !file.name.endsWith(".xlsx") &&
       !file.name.endsWith(".xls") &&
-      !file.name.endsWith(".csv")
+      !isTextFile(file.name)
     ) {
-      setError("Please upload an Excel (.xlsx / .xls) or CSV file.");
+      setError(
+        "Please upload an Excel (.xlsx / .xls) or text (.csv / .tsv / .txt) file."
+      );
       return;
     }
 
-    setFileName(file.name);
+    cancelUpload();
 
     const reader = new FileReader();
+    const upload: PendingUpload = { reader, worker: null };
+    uploadRef.current = upload;
+    setParseProgress({ stage: "reading", loaded: 0, total: file.size });
+
+    reader.onprogress = (event) => {
+      if (uploadRef.current !== upload) return;
+      setParseProgress({
+        stage: "reading",
+        loaded: event.loaded,
+        total: event.total || file.size
+      });
+    };
+
+    reader.onerror = () => {
+      if (uploadRef.current !== upload) return;
+      uploadRef.current = null;
+      setParseProgress(null);
+      setError("Unable to read file.");
+    };
+
     reader.onload = (event) => {
-      try {
-        const data = event.target?.result;
-        if (!data) {
-          throw new Error("Unable to read file.");
-        }
+      if (uploadRef.current !== upload) return;
+
+      const data = event.target?.result;
+      if (!(data instanceof ArrayBuffer)) {
+        uploadRef.current = null;
+        setParseProgress(null);
+        setError("Unable to read file.");
+        return;
+      }
 
-        const workbook = XLSX.read(data, { type: "binary" });
-        const parsedSheets: ParsedSheet[] = workbook.SheetNames.map(
-          (sheetName) => {
-            const worksheet = workbook.Sheets[sheetName];
-            const sheetData: any[][] = XLSX.utils.sheet_to_json(worksheet, {
-              header: 1,
-              blankrows: false
-            });
-
-            const headers = (sheetData[0] || []).map((h) =>
-              String(h ?? "").trim()
-            );
-            const rows = sheetData.slice(1).map((row) =>
-              headers.map((_, index) => row[index] ?? null)
-            );
-
-            return {
-              name: sheetName,
-              headers,
-              rows
-            };
-          }
-        );
-
-        setSheets(parsedSheets);
-        setActiveSheetIndex(0);
-      } catch (err: any) {
-        console.error(err);
-        setError("Failed to parse file. Please check the file format.");
+      // Text files go through the import dialog first
+      if (isTextFile(file.name)) {
+        uploadRef.current = null;
+        setParseProgress(null);
+        setCsvImport({ fileName: file.name, buffer: data, append });
+        return;
       }
+
+      parseInWorker(file.name, { buffer: data }, append);
     };
 
-    reader.readAsBinaryString(file);
+    reader.readAsArrayBuffer(file);
   }
 
-  const totalRows = activeSheet?.rows.length ?? 0;
-  const totalColumns = activeSheet?.headers.length ?? 0;
+  function parseInWorker(
+    fileName: string,
+    request: WorkbookWorkerRequest,
+    append: boolean
+  ) {
+    cancelUpload();
+    const upload: PendingUpload = { reader: null, worker: null };
+    uploadRef.current = upload;
+    setParseProgress({ stage: "parsing" });
+
+    // Parsing runs off the main thread so large workbooks don't freeze the tab
+    const worker = new Worker(
+      new URL("../lib/workbook.worker.ts", import.meta.url)
+    );
+    upload.worker = worker;
+
+    worker.onmessage = (message: MessageEvent<WorkbookWorkerResponse>) => {
+      if (uploadRef.current !== upload) return;
+      const response = message.data;
+
+      if (response.type === "progress") {
+        setParseProgress(response.progress);
+        return;
+      }
 
-  // --- Column type detection for charts ---
-  const columnTypes: ColumnType[] = useMemo(() => {
-    if (!activeSheet) return [];
-    return activeSheet.headers.map((_, colIdx) => {
-      const colValues = activeSheet.rows
-        .map((row) => row[colIdx])
-        .filter((v) => v !== null && v !== undefined && v !== "");
-      if (!colValues.length) return "unknown";
+      worker.terminate();
+      uploadRef.current = null;
+      setParseProgress(null);
 
-      let numericCount = 0;
-      let dateCount = 0;
-      const unique = new Set<string>();
+      if (response.type === "error") {
+        console.error(response.message);
+        setError("Failed to parse file. Please check the file format.");
+        return;
+      }
 
-      for (const val of colValues) {
-        const s = String(val).trim();
-        unique.add(s);
+      if (append) {
+        addFileSheets(fileName, response.sheets);
+        return;
+      }
 
-        const n = Number(s);
-        if (!Number.isNaN(n) && s !== "") numericCount++;
+      savedSheetsRef.current = null;
+      viewSheetRef.current = null;
+      setSheetViews({});
+      setWorkbookId(createWorkbookId());
+      const linked = takeLinkedView(response.sheets);
+      pendingViewRef.current = linked?.view ?? null;
+      setFileName(fileName);
+      setSheets(response.sheets);
+      setEditHistories({});
+      setRecipes({});
+      setActiveSheetIndex(linked?.index ?? 0);
+    };
 
-        const d = new Date(s);
-        if (!Number.isNaN(d.getTime())) dateCount++;
-      }
+    worker.onerror = (err) => {
+      if (uploadRef.current !== upload) return;
+      console.error(err);
+      worker.terminate();
+      uploadRef.current = null;
+      setParseProgress(null);
+      setError("Failed to parse file. Please check the file format.");
+    };
 
-      const length = colValues.length;
-      const numericRatio = numericCount / length;
-      const dateRatio = dateCount / length;
+    worker.postMessage(request, [request.buffer]);
+  }
 
-      if (dateRatio > 0.6) return "date";
-      if (numericRatio > 0.6) return "numeric";
+  function importCsv(options: CsvOptions) {
+    if (!csvImport) return;
+    setCsvImport(null);
+    parseInWorker(
+      csvImport.fileName,
+      {
+        buffer: csvImport.buffer,
+        csv: {
+          sheetName: csvImport.fileName.replace(/\.[^.]+$/, ""),
+          options
+        }
+      },
+      csvImport.append
+    );
+  }
 
-      if (unique.size <= Math.min(20, length)) return "categorical";
-      return "unknown";
+  // Another file's sheets join the session, named after the file. Runs when
+  // the worker answers, so it names against the sheets as they are by then
+  function addFileSheets(name: string, added: ParsedSheet[]) {
+    const base = name.replace(/\.[^.]+$/, "");
+    setSheets((prev) => {
+      const named: ParsedSheet[] = [];
+      added.forEach((sheet) => {
+        const label = sheet.name === base ? base : `${base} · ${sheet.name}`;
+        named.push({
+          ...sheet,
+          name: uniqueSheetName([...prev, ...named], label)
+        });
+      });
+      setActiveSheetIndex(prev.length);
+      return [...prev, ...named];
     });
-  }, [activeSheet]);
+    setFileName((prev) => (prev ? `${prev} + ${name}` : name));
+  }
 
-  // Choose default chart columns based on heuristics
-  useEffect(() => {
-    if (!activeSheet || !columnTypes.length) return;
+  const totalRows = activeSheet?.rows.length ?? 0;
+  const totalColumns = activeSheet?.headers.length ?? 0;
 
-    const defaultCategoryIndex =
-      columnTypes.findIndex((t) => t === "categorical") ?? -1;
-    const defaultValueIndex =
-      columnTypes.findIndex((t) => t === "numeric") ?? -1;
+  // --- Column type detection for charts ---
+  const detectedColumns: ColumnDetection[] = useMemo(() => {
+    if (!activeSheet) return [];
+    return detectColumns(activeSheet);
+  }, [activeSheet]);
 
-    if (defaultCategoryIndex >= 0) {
-      setChartCategoryIndex(defaultCategoryIndex);
-    } else {
-      setChartCategoryIndex(null);
-    }
+  const columnDetections: ColumnDetection[] = useMemo(
+    () => detectedColumns.map((d, i) => withTypeOverride(d, typeOverrides[i])),
+    [detectedColumns, typeOverrides]
+  );
 
-    if (defaultValueIndex >= 0) {
-      setChartValueIndex(defaultValueIndex);
-    } else {
-      setChartValueIndex(null);
-    }
+  const columnTypes: ColumnType[] = useMemo(
+    () => columnDetections.map((d) => d.type),
+    [columnDetections]
+  );
+
+  // Choose default chart columns based on heuristics, unless the sheet's
+  // view (e.g. a restored one) already picked some
+  useEffect(() => {
+    if (!activeSheet || !columnTypes.length) return;
+    setChartConfig((prev) =>
+      prev.category === null && prev.value === null
+        ? defaultChartConfig(columnTypes)
+        : prev
+    );
   }, [activeSheet, columnTypes]);
 
+  const debouncedQuery = useDebouncedValue(
+    searchQuery,
+    (activeSheet?.rows.length ?? 0) > DEBOUNCED_SEARCH_ROWS ? 250 : 0
+  );
+  const search = useMemo(
+    () =>
+      compileSearch(
+        debouncedQuery,
+        activeSheet?.headers ?? [],
+        columnTypes,
+        fuzzySearch
+      ),
+    [debouncedQuery, activeSheet?.headers, columnTypes, fuzzySearch]
+  );
+  // Lower-cased cell text per row, kept across searches and edits. Keyed on
+  // the types themselves, since columnTypes is a new array after every edit
+  const columnTypesKey = columnTypes.join(",");
+  const searchIndex = useMemo(
+    () => createSearchIndex(columnTypesKey.split(",") as ColumnType[]),
+    [columnTypesKey]
+  );
+
   // Process rows: filter + sort (for table)
   const processedRows = useMemo(() => {
     if (!activeSheet) return [];
@@ -187,73 +659,113 @@ export default function HomePage() {
     let rows = [...activeSheet.rows];
 
     // Filter by search query
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      rows = rows.filter((row) =>
-        row.some((cell) =>
-          (cell ?? "")
-            .toString()
-            .toLowerCase()
-            .includes(q)
-        )
-      );
+    if (search.active) {
+      rows = rows.filter((row) => search.test(row, searchIndex(row)));
     }
 
-    // Sort
-    if (sortColumnIndex !== null && sortDirection) {
-      rows.sort((a, b) => {
-        const aVal = a[sortColumnIndex];
-        const bVal = b[sortColumnIndex];
+    // Column filters from the filter panel
+    if (hasActiveFilters(filters)) {
+      rows = rows.filter(compileFilters(filters));
+    }
 
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return sortDirection === "asc" ? -1 : 1;
-        if (bVal == null) return sortDirection === "asc" ? 1 : -1;
+    // Sort (multi-key, stable)
+    rows = sortRows(rows, sortKeys, columnTypes);
 
-        const aNum = Number(aVal);
-        const bNum = Number(bVal);
-        const bothNumeric = !Number.isNaN(aNum) && !Number.isNaN(bNum);
+    return rows;
+  }, [activeSheet, search, searchIndex, filters, sortKeys, columnTypes]);
 
-        if (bothNumeric) {
-          return sortDirection === "asc" ? aNum - bNum : bNum - aNum;
-        }
+  const visibleRowCount = processedRows.length;
 
-        const aStr = aVal.toString().toLowerCase();
-        const bStr = bVal.toString().toLowerCase();
+  // Filtering/sorting keeps row identity, so displayed rows map back by reference
+  const rowIndexByRow = useMemo(
+    () =>
+      new Map<CellValue[], number>(activeSheet?.rows.map((row, i) => [row, i])),
+    [activeSheet]
+  );
 
-        if (aStr === bStr) return 0;
-        if (sortDirection === "asc") {
-          return aStr < bStr ? -1 : 1;
-        } else {
-          return aStr > bStr ? -1 : 1;
-        }
-      });
-    }
+  // Matching cells of the shown rows and columns, in table order
+  const searchHits = useMemo(
+    () =>
+      search.active
+        ? processedRows.flatMap((row) =>
+            search
+              .matchingColumns(row, searchIndex(row))
+              .filter((column) => columnVisibility[column])
+              .map((column) => ({ row: rowIndexByRow.get(row)!, column }))
+          )
+        : [],
+    [search, searchIndex, processedRows, columnVisibility, rowIndexByRow]
+  );
+  useEffect(() => setHitIndex(-1), [searchHits]);
+
+  function goToHit(offset: number) {
+    if (!searchHits.length) return;
+    const next =
+      hitIndex < 0 && offset < 0
+        ? searchHits.length - 1
+        : (hitIndex + offset + searchHits.length) % searchHits.length;
+    setHitIndex(next);
+    setFocusRow(searchHits[next]);
+  }
 
-    return rows;
-  }, [activeSheet, searchQuery, sortColumnIndex, sortDirection]);
+  const editHistory = activeSheet
+    ? editHistories[activeSheet.name] ?? emptyHistory
+    : emptyHistory;
 
-  const visibleHeaders = useMemo(() => {
-    if (!activeSheet) return [];
-    return activeSheet.headers.filter((_, i) => columnVisibility[i]);
-  }, [activeSheet, columnVisibility]);
+  const changes = useMemo(
+    () => (activeSheet ? collectChanges(editHistory, activeSheet) : []),
+    [editHistory, activeSheet]
+  );
+  const changedCells = useMemo(
+    () => new Set(changes.map((c) => cellKey(c.row, c.column))),
+    [changes]
+  );
 
-  const visibleRowCount = processedRows.length;
-  const rowsToDisplay = processedRows.slice(0, 200);
-
-  function toggleSort(index: number) {
-    if (sortColumnIndex === index) {
-      if (sortDirection === "asc") {
-        setSortDirection("desc");
-      } else if (sortDirection === "desc") {
-        setSortColumnIndex(null);
-        setSortDirection(null);
-      } else {
-        setSortDirection("asc");
-      }
-    } else {
-      setSortColumnIndex(index);
-      setSortDirection("asc");
+  const validation = useMemo(
+    () =>
+      activeSheet
+        ? validateSheet(activeSheet, validationRules, columnTypes)
+        : null,
+    [activeSheet, validationRules, columnTypes]
+  );
+
+  // Shows a sheet row in the table, dropping the search and filters if they
+  // hide it
+  function jumpToRow(row: number) {
+    if (!activeSheet) return;
+    if (!processedRows.includes(activeSheet.rows[row])) {
+      setSearchQuery("");
+      setFilters(emptyFilters);
     }
+    setFocusRow({ row });
+  }
+
+  const expressions = useMemo(
+    () => (activeSheet ? columnExpressions(activeSheet) : []),
+    [activeSheet]
+  );
+
+  // Shift-click adds a secondary/tertiary sort key
+  function toggleSort(index: number, additive: boolean) {
+    setSortKeys((prev) => nextSortKeys(prev, index, additive));
+  }
+
+  function setTypeOverride(index: number, type: ColumnType | null) {
+    setTypeOverrides((prev) => {
+      const next = { ...prev };
+      if (type) next[index] = type;
+      else delete next[index];
+      return next;
+    });
+  }
+
+  function setColumnAggregate(column: number, aggregation: Aggregation | null) {
+    setColumnAggregates((prev) => {
+      const next = { ...prev };
+      if (aggregation) next[column] = aggregation;
+      else delete next[column];
+      return next;
+    });
   }
 
   function toggleColumn(index: number) {
@@ -265,48 +777,229 @@ export default function HomePage() {
     });
   }
 
-  // --- Chart data generation (group numeric by category) ---
-  const chartData = useMemo(() => {
-    if (
-      !activeSheet ||
-      chartCategoryIndex === null ||
-      chartValueIndex === null
-    ) {
-      return [];
-    }
+  function writeCell(edit: CellEdit, value: CellValue, restore?: CellDetail) {
+    setSheets((prev) =>
+      prev.map((sheet, i) =>
+        i === activeSheetIndex
+          ? recomputeSheet(
+              setCell(sheet, edit.row, edit.column, value, restore),
+              edit.row
+            )
+          : sheet
+      )
+    );
+  }
 
-    const groupMap = new Map<string, number>();
+  function setEditHistory(history: EditHistory) {
+    if (!activeSheet) return;
+    setEditHistories((prev) => ({ ...prev, [activeSheet.name]: history }));
+  }
 
-    for (const row of activeSheet.rows) {
-      const catRaw = row[chartCategoryIndex];
-      const valRaw = row[chartValueIndex];
+  function editCell(
+    row: number,
+    column: number,
+    value: CellValue,
+    restore?: CellDetail
+  ) {
+    if (!activeSheet) return;
+    const edit: CellEdit = {
+      row,
+      column,
+      before: activeSheet.rows[row][column] ?? null,
+      after: value,
+      detail: activeSheet.cells?.[cellKey(row, column)]
+    };
+    writeCell(edit, value, restore);
+    setEditHistory({ past: [...editHistory.past, edit], future: [] });
+  }
+
+  function undo() {
+    const edit = editHistory.past[editHistory.past.length - 1];
+    if (!edit) return;
+    writeCell(edit, edit.before, edit.detail);
+    setEditHistory({
+      past: editHistory.past.slice(0, -1),
+      future: [edit, ...editHistory.future]
+    });
+  }
+
+  function redo() {
+    const [edit, ...future] = editHistory.future;
+    if (!edit) return;
+    writeCell(edit, edit.after);
+    setEditHistory({ past: [...editHistory.past, edit], future });
+  }
 
-      if (catRaw === null || catRaw === undefined || catRaw === "") continue;
-      const num = Number(valRaw);
-      if (Number.isNaN(num)) continue;
+  // Reverting is itself an edit, so it can be undone too
+  function revertChange(change: CellChange) {
+    editCell(change.row, change.column, change.original, change.detail);
+  }
 
-      const key = String(catRaw);
-      groupMap.set(key, (groupMap.get(key) ?? 0) + num);
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; form fields keep
+  // their own native undo
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
     }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  // Column indexes change, so the sheet's view and edit history start over.
+  // Computed columns are kept (after the new headers) and recalculated
+  function setHeaderRow(headerRow: number, depth: number) {
+    if (!activeSheet) return;
+    const next = setComputedColumns(
+      reheaderSheet(setComputedColumns(activeSheet, []), headerRow, depth),
+      activeSheet.computed ?? []
+    );
+    setSheets((prev) =>
+      prev.map((sheet, i) => (i === activeSheetIndex ? next : sheet))
+    );
+    setEditHistory(emptyHistory);
+    setRecipe(null);
+    applyView(defaultSheetView(next));
+  }
+
+  // Settings follow columns by name, so removing a computed column doesn't
+  // shift them onto its neighbours
+  function updateComputedColumns(computed: ComputedColumn[]) {
+    if (!activeSheet) return;
+    const next = setComputedColumns(activeSheet, computed);
+    setSheets((prev) =>
+      prev.map((sheet, i) => (i === activeSheetIndex ? next : sheet))
+    );
+    applyView(remapView(currentView, activeSheet, next));
+  }
+
+  const recipe = activeSheet ? recipes[activeSheet.name] : undefined;
+  // Only built while the cleaning panel is open, as stripping copies every row
+  const cleaningSheet = useMemo(
+    () =>
+      !showCleaning || !activeSheet
+        ? null
+        : activeSheet.computed?.length
+        ? setComputedColumns(activeSheet, [])
+        : activeSheet,
+    [showCleaning, activeSheet]
+  );
+
+  function setRecipe(next: CleaningRecipeState | null) {
+    if (!activeSheet) return;
+    setRecipes((prev) => {
+      const copy = { ...prev };
+      if (next) copy[activeSheet.name] = next;
+      else delete copy[activeSheet.name];
+      return copy;
+    });
+  }
 
-    const entries = Array.from(groupMap.entries()).map(([category, value]) => ({
-      category,
-      value
-    }));
+  // Cleaning works on the file's columns; computed ones are re-added after.
+  // Rows may be dropped or columns reshaped, so edit history starts over
+  function runCleaning(
+    current: ParsedSheet,
+    from: ParsedSheet,
+    steps: CleanStep[]
+  ) {
+    const { sheet, skipped } = applySteps(from, steps);
+    const next = setComputedColumns(sheet, current.computed ?? []);
+    setSheets((prev) =>
+      prev.map((s, i) => (i === activeSheetIndex ? next : s))
+    );
+    setEditHistory(emptyHistory);
+    applyView(remapView(currentView, current, next));
+    return { next, skipped };
+  }
 
-    // Sort by value descending & cap to top 25 for readability
-    entries.sort((a, b) => b.value - a.value);
-    return entries.slice(0, 25);
-  }, [activeSheet, chartCategoryIndex, chartValueIndex]);
+  function applyCleaningSteps(steps: CleanStep[]) {
+    if (!activeSheet || !cleaningSheet) return [];
+    const { next, skipped } = runCleaning(activeSheet, cleaningSheet, steps);
+    const failed = new Set(skipped.map((s) => s.step));
+    setRecipe({
+      base: recipe?.base ?? cleaningSheet,
+      steps: [...(recipe?.steps ?? []), ...steps.filter((s) => !failed.has(s))],
+      result: next
+    });
+    return skipped;
+  }
 
-  const hasChartConfig =
-    activeSheet &&
-    chartCategoryIndex !== null &&
-    chartValueIndex !== null &&
-    chartData.length > 0;
+  // Takes one step back out by replaying the others from the original sheet
+  function removeCleaningStep(index: number) {
+    if (!activeSheet || !recipe) return;
+    const steps = recipe.steps.filter((_, i) => i !== index);
+    const { next } = runCleaning(activeSheet, recipe.base, steps);
+    setRecipe(steps.length ? { ...recipe, steps, result: next } : null);
+  }
+
+  const matchingSheets = useMemo(
+    () =>
+      activeSheet
+        ? sheets.filter(
+            (s) => s !== activeSheet && headersMatch(s, activeSheet)
+          )
+        : [],
+    [sheets, activeSheet]
+  );
+
+  function applyViewToMatchingSheets() {
+    if (!activeSheet) return;
+    setSheetViews((prev) => {
+      const next = { ...prev };
+      matchingSheets.forEach((sheet) => {
+        next[sheet.name] = remapView(currentView, activeSheet, sheet);
+      });
+      return next;
+    });
+  }
+
+  function addDerivedSheet(sheet: ParsedSheet) {
+    const named = { ...sheet, name: uniqueSheetName(sheets, sheet.name) };
+    setSheets((prev) => [...prev, named]);
+    setActiveSheetIndex(sheets.length);
+  }
 
   return (
     <main className="h-screen w-screen overflow-hidden flex flex-col">
+      {csvImport && (
+        <CsvImportDialog
+          fileName={csvImport.fileName}
+          buffer={csvImport.buffer}
+          onImport={importCsv}
+          onCancel={() => setCsvImport(null)}
+        />
+      )}
+
+      {showJoin && activeSheet && (
+        <JoinDialog
+          sheets={sheets}
+          initialLeft={activeSheetIndex}
+          onCreate={(sheet) => {
+            setShowJoin(false);
+            addDerivedSheet(sheet);
+          }}
+          onCancel={() => setShowJoin(false)}
+        />
+      )}
+
+      {showCompare && activeSheet && (
+        <CompareDialog
+          sheets={sheets}
+          initialAfter={activeSheetIndex}
+          fileName={fileName}
+          onCancel={() => setShowCompare(false)}
+        />
+      )}
+
       {/* Top bar */}
       <header className="flex items-center justify-between border-b border-slate-800/80 bg-slate-950/80 px-6 py-3 backdrop-blur-md">
         <div className="flex items-center gap-3">
@@ -324,7 +1017,31 @@ export default function HomePage() {
         </div>
 
         <div className="flex items-center gap-3">
-          {fileName && (
+          {parseProgress && (
+            <div className="flex items-center gap-2 text-xs">
+              <div className="flex flex-col gap-1 text-right">
+                <span className="text-slate-300">
+                  {describeProgress(parseProgress)}
+                </span>
+                <div className="h-1 w-40 overflow-hidden rounded-full bg-slate-800">
+                  <div
+                    className="h-full bg-sky-400 transition-all"
+                    style={{
+                      width: `${progressPercent(parseProgress)}%`
+                    }}
+                  />
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={cancelUpload}
+                className="rounded-lg border border-rose-500/60 px-2 py-1 text-[11px] text-rose-200 hover:bg-rose-500/20"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+          {fileName && !parseProgress && (
             <div className="hidden sm:flex flex-col text-right text-xs">
               <span className="text-slate-300 truncate max-w-xs">
                 {fileName}
@@ -338,10 +1055,24 @@ export default function HomePage() {
               )}
             </div>
           )}
+          {activeSheet && !parseProgress && (
+            <label
+              title="Load another file's sheets into this session, e.g. to join them"
+              className="relative inline-flex cursor-pointer items-center justify-center rounded-xl border border-slate-700/80 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800 transition"
+            >
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv,.tsv,.txt"
+                onChange={(e) => handleFileChange(e, true)}
+                className="hidden"
+              />
+              <span>+ Add file</span>
+            </label>
+          )}
           <label className="relative inline-flex cursor-pointer items-center justify-center rounded-xl border border-sky-400/60 bg-sky-500/20 px-4 py-1.5 text-xs font-medium text-sky-50 shadow-sm shadow-sky-900/60 hover:bg-sky-500/30 transition">
             <input
               type="file"
-              accept=".xlsx,.xls,.csv"
+              accept=".xlsx,.xls,.csv,.tsv,.txt"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -353,7 +1084,7 @@ export default function HomePage() {
       {/* Main content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
-        <aside className="w-72 border-r border-slate-800/80 bg-slate-950/70 backdrop-blur-xl px-4 py-4 flex flex-col gap-4">
+        <aside className="w-72 border-r border-slate-800/80 bg-slate-950/70 backdrop-blur-xl px-4 py-4 flex flex-col gap-4 overflow-y-auto">
           {/* Sheets */}
           <section>
             <div className="flex items-center justify-between mb-2">
@@ -389,8 +1120,46 @@ export default function HomePage() {
                 </button>
               ))}
             </div>
+            {activeSheet && (
+              <button
+                type="button"
+                onClick={() => setShowJoin(true)}
+                className="mt-2 w-full rounded-lg border border-slate-700/80 px-3 py-1 text-left text-[10px] text-slate-300 hover:bg-slate-800"
+              >
+                Join / append sheets…
+              </button>
+            )}
+            {sheets.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setShowCompare(true)}
+                className="mt-2 w-full rounded-lg border border-slate-700/80 px-3 py-1 text-left text-[10px] text-slate-300 hover:bg-slate-800"
+              >
+                Compare two sheets…
+              </button>
+            )}
+            {matchingSheets.length > 0 && (
+              <button
+                type="button"
+                onClick={applyViewToMatchingSheets}
+                title={matchingSheets.map((s) => s.name).join(", ")}
+                className="mt-2 w-full rounded-lg border border-sky-500/40 px-3 py-1 text-left text-[10px] text-sky-200 hover:bg-sky-500/10"
+              >
+                Apply this view to {matchingSheets.length} sheet
+                {matchingSheets.length !== 1 ? "s" : ""} with matching headers
+              </button>
+            )}
           </section>
 
+          <RecentFiles
+            sessions={recentFiles}
+            activeId={workbookId}
+            note={storageNote}
+            onOpen={openRecent}
+            onRemove={removeRecent}
+            onClear={clearRecent}
+          />
+
           {/* Quick stats */}
           <section className="grid grid-cols-2 gap-2">
             <div className="rounded-2xl border border-emerald-500/20 bg-slate-900/70 p-3 text-xs">
@@ -427,13 +1196,63 @@ export default function HomePage() {
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search across all columns"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") goToHit(e.shiftKey ? -1 : 1);
+                }}
+                placeholder='e.g. region:north "two words" -draft amount:>500'
+                title={
+                  "column:value limits a term to one column (quote names with spaces),\n" +
+                  '"quoted phrase" matches words together, -term excludes rows,\n' +
+                  "/regex/ matches a pattern, amount:>500 or date:<2024-01-01 compares.\n" +
+                  "Enter / Shift+Enter go to the next / previous match."
+                }
                 className="w-full rounded-xl bg-slate-900/80 border border-slate-700/80 px-3 py-1.5 text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-sky-400 focus:border-sky-400"
               />
               <span className="pointer-events-none absolute right-2 top-1.5 text-xs text-slate-500">
                 ⌕
               </span>
             </div>
+            {search.error && (
+              <p className="mt-1 text-[10px] text-rose-300">{search.error}</p>
+            )}
+            <div className="mt-1 flex items-center gap-2 text-[10px] text-slate-400">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={fuzzySearch}
+                  onChange={(e) => setFuzzySearch(e.target.checked)}
+                  className="accent-sky-500"
+                />
+                Fuzzy
+              </label>
+              {search.active && (
+                <span className="ml-auto flex items-center gap-1">
+                  <span>
+                    {hitIndex >= 0 ? `${hitIndex + 1} of ` : ""}
+                    {searchHits.length} match
+                    {searchHits.length !== 1 ? "es" : ""}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => goToHit(-1)}
+                    disabled={!searchHits.length}
+                    title="Previous match (Shift+Enter)"
+                    className="rounded border border-slate-700/80 px-1 hover:bg-slate-800 disabled:opacity-40"
+                  >
+                    ‹
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => goToHit(1)}
+                    disabled={!searchHits.length}
+                    title="Next match (Enter)"
+                    className="rounded border border-slate-700/80 px-1 hover:bg-slate-800 disabled:opacity-40"
+                  >
+                    ›
+                  </button>
+                </span>
+              )}
+            </div>
             {activeSheet && (
               <p className="mt-1 text-[10px] text-slate-500">
                 Showing {visibleRowCount} row
@@ -442,6 +1261,45 @@ export default function HomePage() {
             )}
           </section>
 
+          {/* Column filters */}
+          <section>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-300 mb-2 flex items-center justify-between">
+              Filters
+              {hasActiveFilters(filters) && (
+                <button
+                  type="button"
+                  onClick={() => setFilters(emptyFilters)}
+                  className="text-[10px] text-sky-300 hover:text-sky-200"
+                >
+                  Clear
+                </button>
+              )}
+            </p>
+            {!activeSheet ? (
+              <p className="text-xs text-slate-500">
+                Load a sheet to add filters.
+              </p>
+            ) : (
+              <div className="max-h-72 overflow-auto">
+                <FilterPanel
+                  headers={activeSheet.headers}
+                  columnTypes={columnTypes}
+                  rows={activeSheet.rows}
+                  filters={filters}
+                  onChange={setFilters}
+                />
+              </div>
+            )}
+          </section>
+
+          {activeSheet?.headerSource && (
+            <HeaderRowControl
+              source={activeSheet.headerSource}
+              rows={activeSheet.rows}
+              onChange={setHeaderRow}
+            />
+          )}
+
           {/* Columns visibility */}
           <section className="flex-1 min-h-0">
             <p className="text-xs font-semibold uppercase tracking-wide text-slate-300 mb-2 flex items-center justify-between">
@@ -478,9 +1336,39 @@ export default function HomePage() {
                       checked={columnVisibility[index] ?? true}
                       onChange={() => toggleColumn(index)}
                     />
-                    <span className="truncate">
+                    <span className="truncate flex-1">
                       {header || `Column ${index + 1}`}
                     </span>
+                    <select
+                      value={typeOverrides[index] ?? ""}
+                      onChange={(e) =>
+                        setTypeOverride(
+                          index,
+                          (e.target.value || null) as ColumnType | null
+                        )
+                      }
+                      title="Column type"
+                      className={`rounded bg-slate-900 border border-slate-700/80 px-1 text-[10px] focus:outline-none ${
+                        typeOverrides[index]
+                          ? "text-amber-200"
+                          : "text-slate-400"
+                      }`}
+                    >
+                      <option value="">
+                        {`Auto (${
+                          COLUMN_TYPE_LABELS[
+                            detectedColumns[index]?.type ?? "unknown"
+                          ]
+                        })`}
+                      </option>
+                      {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(
+                        (type) => (
+                          <option key={type} value={type}>
+                            {COLUMN_TYPE_LABELS[type]}
+                          </option>
+                        )
+                      )}
+                    </select>
                   </label>
                 ))}
             </div>
@@ -524,6 +1412,36 @@ export default function HomePage() {
             >
               Charts & Insights
             </button>
+            <button
+              className={`px-4 py-2 text-xs font-medium border-b-2 ${
+                activeTab === "pivot"
+                  ? "border-violet-400 text-violet-200"
+                  : "border-transparent text-slate-400 hover:text-slate-200"
+              }`}
+              onClick={() => setActiveTab("pivot")}
+            >
+              Pivot
+            </button>
+            <button
+              className={`px-4 py-2 text-xs font-medium border-b-2 ${
+                activeTab === "profile"
+                  ? "border-amber-400 text-amber-200"
+                  : "border-transparent text-slate-400 hover:text-slate-200"
+              }`}
+              onClick={() => setActiveTab("profile")}
+            >
+              Profile
+            </button>
+            {activeSheet && (
+              <button
+                type="button"
+                onClick={copyViewLink}
+                title="Copy a link to this view (load the same file to open it)"
+                className="ml-auto rounded-lg border border-slate-700/80 px-2 py-0.5 text-[11px] text-slate-300 hover:bg-slate-800"
+              >
+                Copy link
+              </button>
+            )}
           </div>
 
           {!activeSheet ? (
@@ -551,232 +1469,232 @@ export default function HomePage() {
                     {totalColumns} column{totalColumns !== 1 ? "s" : ""}
                   </span>
                   <span className="text-slate-500">
-                    Showing first {rowsToDisplay.length} row
-                    {rowsToDisplay.length !== 1 ? "s" : ""}.
+                    Showing {visibleRowCount} row
+                    {visibleRowCount !== 1 ? "s" : ""}.
                   </span>
                 </div>
                 <div className="hidden sm:flex items-center gap-2 text-slate-400">
-                  {sortColumnIndex !== null && sortDirection && (
+                  <button
+                    type="button"
+                    onClick={undo}
+                    disabled={!editHistory.past.length}
+                    title="Undo (Ctrl+Z)"
+                    className="rounded-lg border border-slate-700/80 px-2 py-0.5 hover:bg-slate-800 disabled:opacity-40"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={redo}
+                    disabled={!editHistory.future.length}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="rounded-lg border border-slate-700/80 px-2 py-0.5 hover:bg-slate-800 disabled:opacity-40"
+                  >
+                    ↷ Redo
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowChanges((v) => !v)}
+                    className={`rounded-lg border px-2 py-0.5 ${
+                      changes.length
+                        ? "border-amber-500/60 text-amber-200 hover:bg-amber-500/20"
+                        : "border-slate-700/80 hover:bg-slate-800"
+                    }`}
+                  >
+                    Changes ({changes.length})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowFormatted((v) => !v)}
+                    title="Switch between the workbook's formatted text and raw values"
+                    className="rounded-lg border border-slate-700/80 px-2 py-0.5 hover:bg-slate-800"
+                  >
+                    {showFormatted ? "Formatted" : "Raw values"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowComputed((v) => !v)}
+                    title="Add columns calculated from other columns"
+                    className={`rounded-lg border px-2 py-0.5 ${
+                      showComputed
+                        ? "border-violet-400/60 text-violet-200 bg-violet-500/20"
+                        : "border-slate-700/80 hover:bg-slate-800"
+                    }`}
+                  >
+                    ƒ Computed ({activeSheet.computed?.length ?? 0})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowFormatRules((v) => !v)}
+                    title="Color cells by their values"
+                    className={`rounded-lg border px-2 py-0.5 ${
+                      showFormatRules
+                        ? "border-sky-400/60 text-sky-200 bg-sky-500/20"
+                        : "border-slate-700/80 hover:bg-slate-800"
+                    }`}
+                  >
+                    Formatting ({formatRules.length})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowCleaning((v) => !v)}
+                    title="Trim, dedupe, fill, split and replace, as a replayable recipe"
+                    className={`rounded-lg border px-2 py-0.5 ${
+                      showCleaning
+                        ? "border-emerald-400/60 text-emerald-200 bg-emerald-500/20"
+                        : "border-slate-700/80 hover:bg-slate-800"
+                    }`}
+                  >
+                    Clean ({recipe?.steps.length ?? 0})
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowValidation((v) => !v)}
+                    title="Check cells against rules and list the rows that break them"
+                    className={`rounded-lg border px-2 py-0.5 ${
+                      showValidation
+                        ? "border-rose-400/60 text-rose-200 bg-rose-500/20"
+                        : validation?.issues.length
+                        ? "border-rose-400/60 text-rose-300"
+                        : "border-slate-700/80 hover:bg-slate-800"
+                    }`}
+                  >
+                    Validation ({validation?.issues.length ?? 0})
+                  </button>
+                  <ExportMenu
+                    fileName={fileName}
+                    sheetName={activeSheet.name}
+                    headers={activeSheet.headers}
+                    columnTypes={columnTypes}
+                    columnFormats={activeSheet.columnFormats}
+                    columnVisibility={columnVisibility}
+                    viewRows={processedRows}
+                    allRows={activeSheet.rows}
+                    formatRules={formatRules}
+                  />
+                  {sortKeys.length > 0 && (
                     <span>
                       Sorted by{" "}
-                      <span className="text-sky-300">
-                        {activeSheet.headers[sortColumnIndex] ||
-                          `Column ${sortColumnIndex + 1}`}
-                      </span>{" "}
-                      ({sortDirection === "asc" ? "A → Z" : "Z → A"})
+                      {sortKeys.map((key, i) => (
+                        <React.Fragment key={key.column}>
+                          {i > 0 && ", then "}
+                          <span className="text-sky-300">
+                            {activeSheet.headers[key.column] ||
+                              `Column ${key.column + 1}`}
+                          </span>{" "}
+                          ({key.direction === "asc" ? "A → Z" : "Z → A"})
+                        </React.Fragment>
+                      ))}
                     </span>
                   )}
                 </div>
               </div>
 
-              {/* Table */}
-              <div className="flex-1 overflow-auto">
-                <table className="min-w-full border-collapse text-xs">
-                  <thead className="sticky top-0 z-10">
-                    <tr className="bg-slate-900/95 backdrop-blur-md">
-                      {activeSheet.headers.map((header, index) => {
-                        if (!columnVisibility[index]) return null;
-
-                        const isSorted = sortColumnIndex === index;
-
-                        return (
-                          <th
-                            key={index}
-                            onClick={() => toggleSort(index)}
-                            className="border-b border-slate-800/80 px-3 py-2 text-left font-semibold uppercase tracking-wide text-[10px] text-slate-200 cursor-pointer select-none"
-                          >
-                            <div className="flex items-center gap-1">
-                              <span>
-                                {header || (
-                                  <span className="italic text-slate-500">
-                                    Column {index + 1}
-                                  </span>
-                                )}
-                              </span>
-                              <span className="text-[9px] text-slate-400">
-                                {isSorted && sortDirection === "asc" && "▲"}
-                                {isSorted && sortDirection === "desc" && "▼"}
-                                {!isSorted && "⇵"}
-                              </span>
-                            </div>
-                          </th>
-                        );
-                      })}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {rowsToDisplay.map((row, rowIndex) => (
-                      <tr
-                        key={rowIndex}
-                        className={
-                          rowIndex % 2 === 0
-                            ? "bg-slate-900/40"
-                            : "bg-slate-900/10"
-                        }
-                      >
-                        {row.map((cell, cellIndex) => {
-                          if (!columnVisibility[cellIndex]) return null;
-                          return (
-                            <td
-                              key={cellIndex}
-                              className="border-b border-slate-800/60 px-3 py-1.5 text-[11px] text-slate-100"
-                            >
-                              {cell === null ||
-                              cell === undefined ||
-                              cell === ""
-                                ? "—"
-                                : typeof cell === "number"
-                                ? cell.toLocaleString()
-                                : String(cell)}
-                            </td>
-                          );
-                        })}
-                      </tr>
-                    ))}
-
-                    {rowsToDisplay.length === 0 && (
-                      <tr>
-                        <td
-                          colSpan={visibleHeaders.length || 1}
-                          className="px-3 py-4 text-center text-xs text-slate-400"
-                        >
-                          No rows match the current filters/search.
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
-            </>
-          ) : (
-            // Charts & Insights tab
-            <div className="flex-1 flex flex-col p-4 gap-4">
-              <div className="flex flex-wrap items-center justify-between gap-3">
-                <div className="space-y-1">
-                  <h2 className="text-sm font-semibold text-emerald-200">
-                    Auto-generated Insights
-                  </h2>
-                  <p className="text-[11px] text-slate-400 max-w-xl">
-                    We detect categorical and numeric columns, then aggregate
-                    numeric values by category to build a chart. You can change
-                    the axes using the dropdowns.
-                  </p>
-                </div>
+              <FilterChips
+                headers={activeSheet.headers}
+                filters={filters}
+                onChange={setFilters}
+              />
 
-                {/* Dropdowns */}
-                <div className="flex flex-wrap gap-2 text-xs">
-                  <div className="flex flex-col">
-                    <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
-                      Category (X axis)
-                    </span>
-                    <select
-                      value={
-                        chartCategoryIndex !== null
-                          ? chartCategoryIndex
-                          : undefined
-                      }
-                      onChange={(e) =>
-                        setChartCategoryIndex(Number(e.target.value))
-                      }
-                      className="rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-emerald-400"
-                    >
-                      <option value="" disabled>
-                        Select column
-                      </option>
-                      {activeSheet.headers.map((header, idx) => (
-                        <option key={idx} value={idx}>
-                          {header || `Column ${idx + 1}`}{" "}
-                          {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
+              {showComputed && (
+                <ComputedColumnsPanel
+                  sheet={activeSheet}
+                  onChange={updateComputedColumns}
+                />
+              )}
 
-                  <div className="flex flex-col">
-                    <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
-                      Value (Y axis)
-                    </span>
-                    <select
-                      value={
-                        chartValueIndex !== null
-                          ? chartValueIndex
-                          : undefined
-                      }
-                      onChange={(e) =>
-                        setChartValueIndex(Number(e.target.value))
-                      }
-                      className="rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-emerald-400"
-                    >
-                      <option value="" disabled>
-                        Select column
-                      </option>
-                      {activeSheet.headers.map((header, idx) => (
-                        <option key={idx} value={idx}>
-                          {header || `Column ${idx + 1}`}{" "}
-                          {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                </div>
-              </div>
+              {showCleaning && cleaningSheet && (
+                <CleaningPanel
+                  sheet={cleaningSheet}
+                  fileName={fileName}
+                  steps={recipe?.steps ?? []}
+                  editedSince={!!recipe && recipe.result !== activeSheet}
+                  onApply={applyCleaningSteps}
+                  onRemoveStep={removeCleaningStep}
+                />
+              )}
 
-              {/* Chart area */}
-              <div className="flex-1 rounded-2xl border border-emerald-500/25 bg-slate-950/70 p-4 flex flex-col gap-3">
-                {!hasChartConfig ? (
-                  <div className="flex flex-1 flex-col items-center justify-center text-center gap-2">
-                    <div className="text-4xl">🧠</div>
-                    <p className="text-xs text-slate-200">
-                      Not enough structured information to build a chart yet.
-                    </p>
-                    <p className="text-[11px] text-slate-400 max-w-sm">
-                      Make sure you have at least one column with repeated
-                      categories (e.g. "Item", "Region") and one numeric column
-                      (e.g. "Amount", "Quantity"). Then select them above.
-                    </p>
-                  </div>
-                ) : (
-                  <>
-                    <div className="flex items-center justify-between text-[11px] text-slate-300">
-                      <span>
-                        Summed{" "}
-                        <span className="text-emerald-300 font-semibold">
-                          {activeSheet.headers[chartValueIndex!] ||
-                            `Column ${chartValueIndex! + 1}`}
-                        </span>{" "}
-                        by{" "}
-                        <span className="text-emerald-300 font-semibold">
-                          {activeSheet.headers[chartCategoryIndex!] ||
-                            `Column ${chartCategoryIndex! + 1}`}
-                        </span>
-                      </span>
-                      <span className="text-slate-500">
-                        Showing top {chartData.length} categories by value
-                      </span>
-                    </div>
-
-                    <div className="flex-1 min-h-[260px]">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 60 }}>
-                          <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis
-                            dataKey="category"
-                            angle={-35}
-                            textAnchor="end"
-                            interval={0}
-                            height={60}
-                          />
-                          <YAxis />
-                          <Tooltip />
-                          <Legend />
-                          <Bar dataKey="value" />
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </>
-                )}
-              </div>
-            </div>
+              {showFormatRules && (
+                <FormatRulesPanel
+                  headers={activeSheet.headers}
+                  columnTypes={columnTypes}
+                  rules={formatRules}
+                  onChange={setFormatRules}
+                />
+              )}
+
+              {showValidation && validation && (
+                <ValidationPanel
+                  headers={activeSheet.headers}
+                  columnTypes={columnTypes}
+                  fileName={fileName}
+                  sheetName={activeSheet.name}
+                  rules={validationRules}
+                  onChange={setValidationRules}
+                  result={validation}
+                  onJumpToRow={jumpToRow}
+                />
+              )}
+
+              {showChanges && (
+                <ChangesPanel
+                  headers={activeSheet.headers}
+                  columnTypes={columnTypes}
+                  columnFormats={activeSheet.columnFormats}
+                  changes={changes}
+                  onRevert={revertChange}
+                />
+              )}
+
+              <DataTable
+                headers={activeSheet.headers}
+                columnTypes={columnTypes}
+                columnFormats={activeSheet.columnFormats}
+                columnVisibility={columnVisibility}
+                expressions={expressions}
+                rows={processedRows}
+                sourceIndex={(row) => rowIndexByRow.get(row) ?? -1}
+                sortKeys={sortKeys}
+                onSort={toggleSort}
+                changedCells={changedCells}
+                cellDetails={activeSheet.cells}
+                showFormatted={showFormatted}
+                onEditCell={editCell}
+                groupBy={groupBy}
+                onGroupByChange={setGroupBy}
+                columnAggregates={columnAggregates}
+                onAggregateChange={setColumnAggregate}
+                formatRules={formatRules}
+                cellIssues={validation?.byCell}
+                focusRow={focusRow}
+                highlight={search.active ? search.highlight : undefined}
+              />
+            </>
+          ) : activeTab === "profile" ? (
+            <ProfileView
+              headers={activeSheet.headers}
+              rows={activeSheet.rows}
+              detections={columnDetections}
+            />
+          ) : activeTab === "pivot" ? (
+            <PivotView
+              sheetName={activeSheet.name}
+              headers={activeSheet.headers}
+              columnTypes={columnTypes}
+              rows={processedRows}
+              config={pivotConfig}
+              onConfigChange={setPivotConfig}
+              onExport={addDerivedSheet}
+            />
+          ) : (
+            // Charts & Insights tab
+            <ChartView
+              headers={activeSheet.headers}
+              columnTypes={columnTypes}
+              rows={activeSheet.rows}
+              config={chartConfig}
+              onConfigChange={setChartConfig}
+            />
           )}
         </section>
       </div>
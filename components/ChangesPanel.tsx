@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import type { CellValue, ColumnFormat, ColumnType } from "../lib/types";
+import { CellChange, cellKey } from "../lib/edits";
+import { formatCell } from "../lib/values";
+
+type ChangesPanelProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  columnFormats?: ColumnFormat[];
+  changes: CellChange[];
+  onRevert: (change: CellChange) => void;
+};
+
+export default function ChangesPanel({
+  headers,
+  columnTypes,
+  columnFormats,
+  changes,
+  onRevert
+}: ChangesPanelProps) {
+  const show = (value: CellValue, column: number) =>
+    formatCell(value, columnTypes[column], columnFormats?.[column]);
+
+  return (
+    <div className="max-h-48 overflow-auto border-b border-slate-800/80 bg-slate-900/60 px-4 py-2 text-[11px]">
+      {changes.length === 0 ? (
+        <p className="text-slate-500">No edited cells.</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-[10px] uppercase tracking-wide text-slate-400">
+              <th className="py-1 pr-3 font-medium">Row</th>
+              <th className="py-1 pr-3 font-medium">Column</th>
+              <th className="py-1 pr-3 font-medium">Original</th>
+              <th className="py-1 pr-3 font-medium">New</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr
+                key={cellKey(change.row, change.column)}
+                className="border-t border-slate-800/60"
+              >
+                {/* 1-based like the spreadsheet, counting from the first data row */}
+                <td className="py-1 pr-3 text-slate-400">{change.row + 1}</td>
+                <td className="py-1 pr-3 text-slate-200">
+                  {headers[change.column] || `Column ${change.column + 1}`}
+                </td>
+                <td className="py-1 pr-3 text-slate-400 line-through">
+                  {show(change.original, change.column)}
+                </td>
+                <td className="py-1 pr-3 text-amber-200">
+                  {show(change.current, change.column)}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => onRevert(change)}
+                    className="text-[10px] text-sky-300 hover:text-sky-200"
+                  >
+                    Revert
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,774 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  PieChart,
+  Pie,
+  Cell,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from "recharts";
+import type { CellValue, ColumnType } from "../lib/types";
+import {
+  BoxStats,
+  buildBoxPlot,
+  buildCategoryData,
+  buildHistogram,
+  buildScatterData,
+  buildTimeSeriesData,
+  CHART_AGGREGATIONS,
+  CHART_TYPES,
+  ChartAggregation,
+  ChartConfig,
+  ChartType,
+  MAX_PERIODS,
+  withCategory,
+  withChartType
+} from "../lib/charts";
+import { TIME_INTERVALS, TimeInterval } from "../lib/timeSeries";
+
+type ChartViewProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  rows: CellValue[][];
+  config: ChartConfig;
+  onConfigChange: (config: ChartConfig) => void;
+};
+
+const SERIES_COLORS = [
+  "#38bdf8",
+  "#34d399",
+  "#a78bfa",
+  "#fbbf24",
+  "#f472b6",
+  "#f87171",
+  "#2dd4bf",
+  "#818cf8",
+  "#94a3b8"
+];
+
+const selectClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-emerald-400";
+
+const CATEGORY_AXIS_PROPS = {
+  dataKey: "category",
+  angle: -35,
+  textAnchor: "end",
+  interval: 0,
+  height: 60
+} as const;
+
+const formatNumber = (n: number) =>
+  n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+function formatChange(change: number | string | null | undefined) {
+  if (typeof change !== "number") return "—";
+  return `${change > 0 ? "+" : ""}${(change * 100).toFixed(1)}%`;
+}
+
+// Draws a box-and-whisker glyph inside the [min, max] range bar
+function BoxShape(props: any) {
+  const { x, y, width, height, payload } = props;
+  const { min, max, q1, median, q3 } = payload as BoxStats;
+  const span = max - min || 1;
+  const py = (v: number) => y + ((max - v) / span) * height;
+  const cx = x + width / 2;
+  const boxWidth = width * 0.6;
+  const left = cx - boxWidth / 2;
+
+  return (
+    <g stroke="#34d399" strokeWidth={1.5}>
+      <line x1={cx} x2={cx} y1={py(max)} y2={py(q3)} />
+      <line x1={cx} x2={cx} y1={py(q1)} y2={py(min)} />
+      <line x1={left} x2={left + boxWidth} y1={py(max)} y2={py(max)} />
+      <line x1={left} x2={left + boxWidth} y1={py(min)} y2={py(min)} />
+      <rect
+        x={left}
+        y={py(q3)}
+        width={boxWidth}
+        height={Math.max(1, py(q1) - py(q3))}
+        fill="rgba(52, 211, 153, 0.2)"
+      />
+      <line
+        x1={left}
+        x2={left + boxWidth}
+        y1={py(median)}
+        y2={py(median)}
+        strokeWidth={2.5}
+      />
+    </g>
+  );
+}
+
+function BoxTooltip({ active, payload }: any) {
+  if (!active || !payload?.length) return null;
+  const stats = payload[0].payload as BoxStats;
+  const fmt = (n: number) =>
+    n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-900/95 px-3 py-2 text-[11px] text-slate-100">
+      <p className="font-semibold text-emerald-200">{stats.category}</p>
+      <p>Max: {fmt(stats.max)}</p>
+      <p>Q3: {fmt(stats.q3)}</p>
+      <p>Median: {fmt(stats.median)}</p>
+      <p>Q1: {fmt(stats.q1)}</p>
+      <p>Min: {fmt(stats.min)}</p>
+      <p className="text-slate-400">{stats.count} values</p>
+    </div>
+  );
+}
+
+export default function ChartView({
+  headers,
+  columnTypes,
+  rows,
+  config,
+  onConfigChange
+}: ChartViewProps) {
+  const spec = CHART_TYPES.find((t) => t.value === config.type)!;
+  const columnName = (idx: number) => headers[idx] || `Column ${idx + 1}`;
+
+  const isCategoryChart = spec.category === "category";
+  const isTimeSeries = config.type === "timeSeries";
+  // Time series without a split have one series, named after the value
+  const seriesName = (key: string) =>
+    key === "value" && config.value !== null ? columnName(config.value) : key;
+  const isDateAxis =
+    config.category !== null && columnTypes[config.category] === "date";
+
+  const categoryData = useMemo(
+    () =>
+      isCategoryChart
+        ? buildCategoryData(rows, config, columnTypes)
+        : { data: [], seriesKeys: [], otherCount: 0 },
+    [rows, config, columnTypes, isCategoryChart]
+  );
+
+  const timeSeriesData = useMemo(
+    () =>
+      isTimeSeries
+        ? buildTimeSeriesData(rows, config, columnTypes)
+        : { data: [], seriesKeys: [], undated: 0, tooManyPeriods: false },
+    [rows, config, columnTypes, isTimeSeries]
+  );
+
+  const scatterData = useMemo(
+    () =>
+      config.type === "scatter" &&
+      config.category !== null &&
+      config.value !== null
+        ? buildScatterData(rows, config.category, config.value)
+        : [],
+    [rows, config]
+  );
+
+  const histogramData = useMemo(
+    () =>
+      config.type === "histogram" && config.value !== null
+        ? buildHistogram(rows, config.value)
+        : [],
+    [rows, config]
+  );
+
+  const boxData = useMemo(
+    () =>
+      config.type === "box" && config.value !== null
+        ? buildBoxPlot(rows, config.value, config.category, config.topN)
+        : [],
+    [rows, config]
+  );
+
+  const dataLength =
+    config.type === "scatter"
+      ? scatterData.length
+      : config.type === "histogram"
+      ? histogramData.length
+      : config.type === "box"
+      ? boxData.length
+      : isTimeSeries
+      ? timeSeriesData.data.length
+      : categoryData.data.length;
+
+  const aggregationLabel =
+    CHART_AGGREGATIONS.find((a) => a.value === config.aggregation)?.label ??
+    config.aggregation;
+
+  function columnOptions() {
+    return headers.map((_, idx) => (
+      <option key={idx} value={idx}>
+        {columnName(idx)} {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
+      </option>
+    ));
+  }
+
+  function renderChart() {
+    const margin = { top: 10, right: 20, left: 0, bottom: 60 };
+    const { data, seriesKeys } = categoryData;
+
+    switch (config.type) {
+      case "bar":
+      case "groupedBar":
+      case "stackedBar":
+        return (
+          <BarChart data={data} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis {...CATEGORY_AXIS_PROPS} />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            {seriesKeys.map((key, i) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                stackId={config.type === "stackedBar" ? "stack" : undefined}
+                fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+              />
+            ))}
+          </BarChart>
+        );
+      case "line":
+        return (
+          <LineChart data={data} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              {...CATEGORY_AXIS_PROPS}
+              interval={isDateAxis ? "preserveStartEnd" : 0}
+            />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            {seriesKeys.map((key, i) => (
+              <Line
+                key={key}
+                dataKey={key}
+                type="monotone"
+                dot={data.length <= 60}
+                connectNulls
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              />
+            ))}
+          </LineChart>
+        );
+      case "area":
+        return (
+          <AreaChart data={data} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              {...CATEGORY_AXIS_PROPS}
+              interval={isDateAxis ? "preserveStartEnd" : 0}
+            />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            {seriesKeys.map((key, i) => (
+              <Area
+                key={key}
+                dataKey={key}
+                type="monotone"
+                stackId="stack"
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+                fillOpacity={0.3}
+              />
+            ))}
+          </AreaChart>
+        );
+      case "pie":
+        return (
+          <PieChart>
+            <Tooltip />
+            <Legend />
+            <Pie
+              data={data}
+              dataKey="value"
+              nameKey="category"
+              innerRadius="45%"
+              outerRadius="80%"
+              paddingAngle={1}
+            >
+              {data.map((_, i) => (
+                <Cell
+                  key={i}
+                  fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+                  stroke="#0f172a"
+                />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+      case "scatter":
+        return (
+          <ScatterChart margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="x"
+              name={columnName(config.category!)}
+            />
+            <YAxis type="number" dataKey="y" name={columnName(config.value!)} />
+            <Tooltip cursor={{ strokeDasharray: "3 3" }} />
+            <Scatter data={scatterData} fill={SERIES_COLORS[0]} />
+          </ScatterChart>
+        );
+      case "histogram":
+        return (
+          <BarChart data={histogramData} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis {...CATEGORY_AXIS_PROPS} />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="value" name="Rows" fill={SERIES_COLORS[0]} />
+          </BarChart>
+        );
+      case "timeSeries": {
+        const ts = timeSeriesData;
+        return (
+          <LineChart data={ts.data} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis {...CATEGORY_AXIS_PROPS} interval="preserveStartEnd" />
+            <YAxis />
+            <Tooltip formatter={(v: number) => formatNumber(v)} />
+            <Legend />
+            {ts.seriesKeys.flatMap((key, i) => {
+              const color = SERIES_COLORS[i % SERIES_COLORS.length];
+              const lines = [
+                <Line
+                  key={key}
+                  dataKey={key}
+                  name={seriesName(key)}
+                  dot={ts.data.length <= 60}
+                  connectNulls
+                  stroke={color}
+                />
+              ];
+              if (config.movingAverage) {
+                lines.push(
+                  <Line
+                    key={`ma:${key}`}
+                    dataKey={`ma:${key}`}
+                    name={`${seriesName(key)} (${
+                      config.movingAverage
+                    }-period avg)`}
+                    dot={false}
+                    connectNulls
+                    stroke={color}
+                    strokeDasharray="6 3"
+                    strokeOpacity={0.8}
+                  />
+                );
+              }
+              if (config.trend) {
+                lines.push(
+                  <Line
+                    key={`trend:${key}`}
+                    dataKey={`trend:${key}`}
+                    name={`${seriesName(key)} (trend)`}
+                    dot={false}
+                    stroke={color}
+                    strokeDasharray="2 3"
+                    strokeOpacity={0.6}
+                  />
+                );
+              }
+              return lines;
+            })}
+          </LineChart>
+        );
+      }
+      case "box":
+        return (
+          <BarChart data={boxData} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis {...CATEGORY_AXIS_PROPS} />
+            <YAxis domain={["auto", "auto"]} />
+            <Tooltip content={<BoxTooltip />} />
+            <Bar
+              dataKey={(d: BoxStats) => [d.min, d.max]}
+              shape={<BoxShape />}
+              isAnimationActive={false}
+            />
+          </BarChart>
+        );
+    }
+  }
+
+  // Each period's value and its change from the period before, newest first
+  function renderChangeTable() {
+    const { data, seriesKeys } = timeSeriesData;
+    return (
+      <div className="max-h-48 overflow-auto text-[11px]">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-slate-950">
+            <tr className="text-left text-[10px] uppercase tracking-wide text-slate-400">
+              <th className="py-1 pr-3 font-medium">Period</th>
+              {seriesKeys.map((key) => (
+                <th key={key} colSpan={2} className="py-1 pr-3 font-medium">
+                  {seriesName(key)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {[...data].reverse().map((point) => (
+              <tr
+                key={point.category as string}
+                className="border-t border-slate-800/60"
+              >
+                <td className="py-1 pr-3 text-slate-300">{point.category}</td>
+                {seriesKeys.map((key) => {
+                  const value = point[key];
+                  const change = point[`change:${key}`];
+                  return (
+                    <React.Fragment key={key}>
+                      <td className="py-1 pr-2 text-right text-slate-100">
+                        {typeof value === "number" ? formatNumber(value) : "—"}
+                      </td>
+                      <td
+                        className={`py-1 pr-3 text-right ${
+                          typeof change !== "number" || change === 0
+                            ? "text-slate-500"
+                            : change > 0
+                            ? "text-emerald-300"
+                            : "text-rose-300"
+                        }`}
+                      >
+                        {formatChange(change)}
+                      </td>
+                    </React.Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  function describeChart() {
+    const value = config.value !== null ? columnName(config.value) : "";
+    const category =
+      config.category !== null ? columnName(config.category) : "";
+    switch (config.type) {
+      case "scatter":
+        return `${value} vs ${category}`;
+      case "histogram":
+        return `Distribution of ${value}`;
+      case "box":
+        return category ? `${value} by ${category}` : `Spread of ${value}`;
+      case "timeSeries":
+        return `${aggregationLabel} of ${value} per ${
+          config.interval
+        } of ${category}${
+          config.series !== null
+            ? `, split by ${columnName(config.series)}`
+            : ""
+        }`;
+      default:
+        return `${aggregationLabel} of ${value} by ${category}${
+          config.series !== null
+            ? `, split by ${columnName(config.series)}`
+            : ""
+        }`;
+    }
+  }
+
+  const usesTopN = (isCategoryChart && !isDateAxis) || config.type === "box";
+
+  return (
+    <div className="flex-1 flex flex-col p-4 gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-emerald-200">
+            Auto-generated Insights
+          </h2>
+          <p className="text-[11px] text-slate-400 max-w-xl">
+            We detect categorical, date and numeric columns and suggest a chart.
+            Pick a chart type and the axes it needs using the dropdowns.
+          </p>
+        </div>
+
+        {/* Dropdowns */}
+        <div className="flex flex-wrap gap-2 text-xs">
+          <div className="flex flex-col">
+            <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+              Chart type
+            </span>
+            <select
+              value={config.type}
+              onChange={(e) =>
+                onConfigChange(
+                  withChartType(
+                    config,
+                    e.target.value as ChartType,
+                    columnTypes
+                  )
+                )
+              }
+              className={selectClass}
+            >
+              {CHART_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {spec.category !== "none" && (
+            <div className="flex flex-col">
+              <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                {spec.category === "numeric"
+                  ? "X (numeric)"
+                  : spec.category === "date"
+                  ? "Date (X axis)"
+                  : spec.category === "optional"
+                  ? "Group by"
+                  : "Category (X axis)"}
+              </span>
+              <select
+                value={config.category ?? ""}
+                onChange={(e) =>
+                  onConfigChange(
+                    withCategory(
+                      config,
+                      e.target.value === "" ? null : Number(e.target.value),
+                      columnTypes
+                    )
+                  )
+                }
+                className={selectClass}
+              >
+                <option value="" disabled={spec.category !== "optional"}>
+                  {spec.category === "optional" ? "None" : "Select column"}
+                </option>
+                {columnOptions()}
+              </select>
+            </div>
+          )}
+
+          <div className="flex flex-col">
+            <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+              {config.type === "scatter" ? "Y (numeric)" : "Value (Y axis)"}
+            </span>
+            <select
+              value={config.value ?? ""}
+              onChange={(e) =>
+                onConfigChange({ ...config, value: Number(e.target.value) })
+              }
+              className={selectClass}
+            >
+              <option value="" disabled>
+                Select column
+              </option>
+              {columnOptions()}
+            </select>
+          </div>
+
+          {spec.series && (
+            <div className="flex flex-col">
+              <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                Split by
+              </span>
+              <select
+                value={config.series ?? ""}
+                onChange={(e) =>
+                  onConfigChange({
+                    ...config,
+                    series:
+                      e.target.value === "" ? null : Number(e.target.value)
+                  })
+                }
+                className={selectClass}
+              >
+                <option value="">None</option>
+                {columnOptions()}
+              </select>
+            </div>
+          )}
+
+          {isTimeSeries && (
+            <div className="flex flex-col">
+              <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                Per
+              </span>
+              <select
+                value={config.interval}
+                onChange={(e) =>
+                  onConfigChange({
+                    ...config,
+                    interval: e.target.value as TimeInterval
+                  })
+                }
+                className={selectClass}
+              >
+                {TIME_INTERVALS.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(isCategoryChart || isTimeSeries) && (
+            <div className="flex flex-col">
+              <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                Aggregation
+              </span>
+              <select
+                value={config.aggregation}
+                onChange={(e) =>
+                  onConfigChange({
+                    ...config,
+                    aggregation: e.target.value as ChartAggregation
+                  })
+                }
+                className={selectClass}
+              >
+                {CHART_AGGREGATIONS.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {isTimeSeries && (
+            <>
+              <div className="flex flex-col">
+                <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                  Moving avg
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={config.movingAverage}
+                  title="Periods averaged; 0 hides the line"
+                  onChange={(e) =>
+                    onConfigChange({
+                      ...config,
+                      movingAverage: Math.max(0, Number(e.target.value) || 0)
+                    })
+                  }
+                  className={`${selectClass} w-20`}
+                />
+              </div>
+              <label className="flex items-center gap-1 self-end pb-1.5 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={config.trend}
+                  onChange={(e) =>
+                    onConfigChange({ ...config, trend: e.target.checked })
+                  }
+                  className="accent-emerald-500"
+                />
+                Trend line
+              </label>
+            </>
+          )}
+
+          {usesTopN && (
+            <div className="flex flex-col">
+              <span className="mb-1 text-[10px] uppercase tracking-wide text-slate-400">
+                Top N
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={config.topN}
+                onChange={(e) =>
+                  onConfigChange({
+                    ...config,
+                    topN: Math.max(1, Number(e.target.value) || 1)
+                  })
+                }
+                className={`${selectClass} w-20`}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Chart area */}
+      <div className="flex-1 rounded-2xl border border-emerald-500/25 bg-slate-950/70 p-4 flex flex-col gap-3">
+        {isTimeSeries && dataLength === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center text-center gap-2">
+            <p className="text-xs text-slate-200">
+              {timeSeriesData.tooManyPeriods
+                ? `That makes more than ${MAX_PERIODS} periods.`
+                : "No dates to chart yet."}
+            </p>
+            <p className="text-[11px] text-slate-400 max-w-sm">
+              {timeSeriesData.tooManyPeriods
+                ? "Pick a longer period, or filter the rows to a shorter span."
+                : "Pick a date column for the X axis and a numeric column to measure."}
+            </p>
+          </div>
+        ) : dataLength === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center text-center gap-2">
+            <div className="text-4xl">🧠</div>
+            <p className="text-xs text-slate-200">
+              Not enough structured information to build a chart yet.
+            </p>
+            <p className="text-[11px] text-slate-400 max-w-sm">
+              Make sure you have at least one column with repeated categories
+              (e.g. "Item", "Region") and one numeric column (e.g. "Amount",
+              "Quantity"). Then select them above.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-[11px] text-slate-300">
+              <span className="text-emerald-300 font-semibold">
+                {describeChart()}
+              </span>
+              <span className="text-slate-500">
+                {config.type === "scatter"
+                  ? `${scatterData.length} points`
+                  : isTimeSeries
+                  ? `${dataLength} periods${
+                      timeSeriesData.undated
+                        ? `, ${timeSeriesData.undated} rows without a readable date left out`
+                        : ""
+                    }`
+                  : isCategoryChart && isDateAxis
+                  ? `${dataLength} points over time`
+                  : usesTopN
+                  ? `Showing top ${Math.min(config.topN, dataLength)}${
+                      categoryData.otherCount
+                        ? ` + ${categoryData.otherCount} in "Other"`
+                        : ""
+                    }`
+                  : `${dataLength} bins`}
+              </span>
+            </div>
+
+            <div className="flex-1 min-h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                {renderChart()}
+              </ResponsiveContainer>
+            </div>
+
+            {isTimeSeries && renderChangeTable()}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
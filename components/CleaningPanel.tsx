@@ -0,0 +1,380 @@
+"use client";
+
+import React, { useState } from "react";
+import type { ParsedSheet } from "../lib/types";
+import {
+  CaseMode,
+  CLEAN_OPS,
+  CleanOp,
+  CleanStep,
+  describeStep,
+  parseRecipe,
+  recipeToJson,
+  stepError
+} from "../lib/cleaning";
+import { downloadFile, exportFileName } from "../lib/export";
+
+type CleaningPanelProps = {
+  // The active sheet without its computed columns
+  sheet: ParsedSheet;
+  fileName: string | null;
+  steps: CleanStep[];
+  // True when the sheet was edited after the last step, so replaying loses it
+  editedSince: boolean;
+  // Returns the steps that couldn't run, with the reason
+  onApply: (steps: CleanStep[]) => { step: CleanStep; error: string }[];
+  onRemoveStep: (index: number) => void;
+};
+
+const inputClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-400";
+
+// Ops where leaving the column list empty means every column
+const ALL_COLUMNS_OPS: CleanOp[] = [
+  "trim",
+  "case",
+  "dedupe",
+  "fill",
+  "replace"
+];
+
+export default function CleaningPanel({
+  sheet,
+  fileName,
+  steps,
+  editedSince,
+  onApply,
+  onRemoveStep
+}: CleaningPanelProps) {
+  const [op, setOp] = useState<CleanOp>("trim");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [caseMode, setCaseMode] = useState<CaseMode>("title");
+  const [fillMode, setFillMode] = useState<"down" | "value">("down");
+  const [text, setText] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const names = sheet.headers.map((h, i) => h || `Column ${i + 1}`);
+  // Picked columns that no longer exist (after a split or merge) drop out
+  const picked = columns.filter((c) => names.includes(c));
+
+  function buildStep(): CleanStep {
+    switch (op) {
+      case "trim":
+        return { op, columns: picked };
+      case "case":
+        return { op, columns: picked, mode: caseMode };
+      case "dedupe":
+        return { op, columns: picked };
+      case "fill":
+        return { op, columns: picked, mode: fillMode, value: text };
+      case "split":
+        return { op, column: picked[0] ?? names[0] ?? "", delimiter: text };
+      case "merge":
+        return { op, columns: picked, separator: text, name: replacement };
+      case "replace":
+        return {
+          op,
+          columns: picked,
+          find: text,
+          replace: replacement,
+          regex,
+          matchCase
+        };
+    }
+  }
+
+  const step = buildStep();
+  const problem = stepError(step, sheet);
+
+  function pickOp(next: CleanOp) {
+    setOp(next);
+    setText(next === "split" ? "," : next === "merge" ? " " : "");
+    setReplacement("");
+    setColumns(next === "split" ? columns.slice(0, 1) : columns);
+    setNotice(null);
+  }
+
+  function apply() {
+    if (problem) return;
+    onApply([step]);
+    setNotice(null);
+  }
+
+  function saveRecipe() {
+    downloadFile(
+      recipeToJson(steps),
+      `${exportFileName(fileName, sheet.name)}.recipe.json`,
+      "application/json"
+    );
+  }
+
+  async function loadRecipe(file: File) {
+    const loaded = parseRecipe(await file.text());
+    if (!loaded) {
+      setNotice(`${file.name} isn't a cleaning recipe.`);
+      return;
+    }
+    const skipped = onApply(loaded);
+    setNotice(
+      skipped.length
+        ? `Applied ${loaded.length - skipped.length} of ${
+            loaded.length
+          } steps. Skipped: ${skipped
+            .map((s) => `${describeStep(s.step)} (${s.error})`)
+            .join("; ")}`
+        : `Applied ${loaded.length} steps from ${file.name}.`
+    );
+  }
+
+  const columnPicker =
+    op === "split" ? (
+      <select
+        value={picked[0] ?? names[0]}
+        onChange={(e) => setColumns([e.target.value])}
+        className={inputClass}
+      >
+        {names.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <span className="flex flex-wrap items-center gap-1">
+        {picked.map((name) => (
+          <span
+            key={name}
+            className="inline-flex items-center gap-1 rounded-full bg-emerald-500/20 px-2 py-0.5 text-emerald-100"
+          >
+            {name}
+            <button
+              type="button"
+              onClick={() => setColumns(picked.filter((c) => c !== name))}
+              className="text-emerald-300 hover:text-rose-300"
+              aria-label="Remove column"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => setColumns([...picked, e.target.value])}
+          className={inputClass}
+        >
+          <option value="">
+            {picked.length
+              ? "+ column"
+              : ALL_COLUMNS_OPS.includes(op)
+              ? "All columns (or pick…)"
+              : "Pick columns…"}
+          </option>
+          {names
+            .filter((name) => !picked.includes(name))
+            .map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+        </select>
+      </span>
+    );
+
+  return (
+    <div className="border-b border-slate-800/80 bg-slate-900/60 px-4 py-2 text-[11px] space-y-2">
+      {steps.length > 0 && (
+        <div className="space-y-1">
+          <ol className="space-y-1">
+            {steps.map((s, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <span className="w-4 text-right text-slate-500">
+                  {index + 1}.
+                </span>
+                <span className="text-slate-200">{describeStep(s)}</span>
+                <button
+                  type="button"
+                  onClick={() => onRemoveStep(index)}
+                  title="Take this step back out and replay the rest"
+                  className="ml-auto text-[10px] text-rose-300 hover:text-rose-200"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ol>
+          {editedSince && (
+            <p className="text-amber-300">
+              Removing a step replays the others on the sheet as it was before
+              cleaning, so cell edits made since will be lost.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={op}
+          onChange={(e) => pickOp(e.target.value as CleanOp)}
+          className={inputClass}
+        >
+          {CLEAN_OPS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+
+        {columnPicker}
+
+        {op === "case" && (
+          <select
+            value={caseMode}
+            onChange={(e) => setCaseMode(e.target.value as CaseMode)}
+            className={inputClass}
+          >
+            <option value="upper">UPPERCASE</option>
+            <option value="lower">lowercase</option>
+            <option value="title">Title Case</option>
+          </select>
+        )}
+
+        {op === "fill" && (
+          <>
+            <select
+              value={fillMode}
+              onChange={(e) => setFillMode(e.target.value as "down" | "value")}
+              className={inputClass}
+            >
+              <option value="down">with the value above</option>
+              <option value="value">with a constant</option>
+            </select>
+            {fillMode === "value" && (
+              <input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Value, e.g. 0 or N/A"
+                className={`${inputClass} w-32`}
+              />
+            )}
+          </>
+        )}
+
+        {op === "split" && (
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Delimiter"
+            className={`${inputClass} w-20`}
+          />
+        )}
+
+        {op === "merge" && (
+          <>
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Separator"
+              title="Separator"
+              className={`${inputClass} w-20`}
+            />
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="New column name"
+              className={`${inputClass} w-36`}
+            />
+          </>
+        )}
+
+        {op === "replace" && (
+          <>
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={regex ? "Pattern, e.g. ^\\s*(\\d+)" : "Find"}
+              spellCheck={false}
+              className={`${inputClass} w-36 ${regex ? "font-mono" : ""}`}
+            />
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder={regex ? "Replace ($1 = group)" : "Replace with"}
+              spellCheck={false}
+              className={`${inputClass} w-36`}
+            />
+            <label className="flex items-center gap-1 text-slate-300">
+              <input
+                type="checkbox"
+                checked={regex}
+                onChange={(e) => setRegex(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Regex
+            </label>
+            <label className="flex items-center gap-1 text-slate-300">
+              <input
+                type="checkbox"
+                checked={matchCase}
+                onChange={(e) => setMatchCase(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Match case
+            </label>
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={apply}
+          disabled={!!problem}
+          title={problem ?? ""}
+          className="rounded-lg border border-emerald-400/60 bg-emerald-500/20 px-2 py-1 text-emerald-100 hover:bg-emerald-500/30 disabled:opacity-40"
+        >
+          Apply
+        </button>
+
+        <span className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onRemoveStep(steps.length - 1)}
+            disabled={!steps.length}
+            className="text-[10px] text-sky-300 hover:text-sky-200 disabled:opacity-40"
+          >
+            Undo last step
+          </button>
+          <button
+            type="button"
+            onClick={saveRecipe}
+            disabled={!steps.length}
+            className="text-[10px] text-sky-300 hover:text-sky-200 disabled:opacity-40"
+          >
+            Save recipe
+          </button>
+          <label className="cursor-pointer text-[10px] text-sky-300 hover:text-sky-200">
+            Apply recipe file…
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) {
+                  loadRecipe(file).catch((err) => {
+                    console.error(err);
+                    setNotice("Couldn't read the recipe file.");
+                  });
+                }
+              }}
+            />
+          </label>
+        </span>
+      </div>
+
+      {notice && <p className="text-slate-300">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { CellValue, ColumnType, ParsedSheet } from "../lib/types";
+import {
+  CompareBy,
+  compareSheets,
+  diffCell,
+  diffReport,
+  diffSummary,
+  RowDiff,
+  RowStatus,
+  sharedColumns
+} from "../lib/compare";
+import {
+  downloadFile,
+  exportFileName,
+  selectColumns,
+  toDelimited,
+  toXlsx
+} from "../lib/export";
+import {
+  createFormatRule,
+  FormatColor,
+  FormatRule
+} from "../lib/conditionalFormat";
+import { useVirtualRows } from "../lib/useVirtualRows";
+import { isEmptyCell } from "../lib/values";
+
+type CompareDialogProps = {
+  sheets: ParsedSheet[];
+  // Sheet preselected as the new version (the active one)
+  initialAfter: number;
+  fileName: string | null;
+  onCancel: () => void;
+};
+
+const ROW_HEIGHT = 26;
+
+const selectClass =
+  "w-full rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+const STATUS_STYLES: Record<RowStatus, { label: string; className: string }> = {
+  added: { label: "Added", className: "text-emerald-300" },
+  removed: { label: "Removed", className: "text-rose-300" },
+  changed: { label: "Changed", className: "text-amber-300" },
+  unchanged: { label: "Same", className: "text-slate-500" }
+};
+
+const ROW_BACKGROUNDS: Record<RowStatus, string> = {
+  added: "bg-emerald-500/10",
+  removed: "bg-rose-500/10",
+  changed: "",
+  unchanged: ""
+};
+
+function display(value: CellValue) {
+  return isEmptyCell(value) ? "—" : String(value);
+}
+
+// Values are mixed with "old → new" text, so report columns aren't typed
+const untyped = (count: number): ColumnType[] =>
+  new Array(count).fill("unknown");
+
+function containsRule(
+  column: number,
+  value: string,
+  color: FormatColor
+): FormatRule {
+  return {
+    ...createFormatRule(column, "unknown"),
+    kind: "contains",
+    value,
+    color
+  };
+}
+
+// Colors the report's Status column and old → new cells in Excel
+function reportRules(columnCount: number): FormatRule[] {
+  return [
+    containsRule(0, "added", "emerald"),
+    containsRule(0, "removed", "rose"),
+    containsRule(0, "changed", "amber"),
+    ...Array.from({ length: columnCount }, (_, i) =>
+      containsRule(i + 1, " → ", "amber")
+    )
+  ];
+}
+
+export default function CompareDialog({
+  sheets,
+  initialAfter,
+  fileName,
+  onCancel
+}: CompareDialogProps) {
+  const [beforeIndex, setBeforeIndex] = useState(
+    initialAfter === 0 && sheets.length > 1 ? 1 : 0
+  );
+  const [afterIndex, setAfterIndex] = useState(initialAfter);
+  const before = sheets[beforeIndex];
+  const after = sheets[afterIndex];
+  const keyOptions = useMemo(
+    () => sharedColumns(after, before),
+    [before, after]
+  );
+  const [by, setBy] = useState<CompareBy>("key");
+  const [chosenKey, setChosenKey] = useState("");
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [scrollEl, setScrollEl] = useState<HTMLDivElement | null>(null);
+
+  // Falls back to the first shared column when the sheets change
+  const key = keyOptions.includes(chosenKey) ? chosenKey : keyOptions[0] ?? "";
+  const matchBy: CompareBy = by === "key" && key ? "key" : "position";
+
+  const diff = useMemo(
+    () => compareSheets(before, after, { by: matchBy, key }),
+    [before, after, matchBy, key]
+  );
+  const shownRows: RowDiff[] = useMemo(
+    () =>
+      changesOnly
+        ? diff.rows.filter((row) => row.status !== "unchanged")
+        : diff.rows,
+    [diff, changesOnly]
+  );
+
+  const virtualRows = useVirtualRows(scrollEl, shownRows.length, ROW_HEIGHT);
+  const rowsToDisplay = shownRows.slice(virtualRows.start, virtualRows.end);
+
+  function exportReport(format: "xlsx" | "csv") {
+    const report = diffReport(diff, before, after, !changesOnly);
+    const columns = report.headers.map((_, i) => i);
+    const table = selectColumns(
+      report.headers,
+      report.rows,
+      columns,
+      untyped(columns.length),
+      undefined,
+      reportRules(diff.columns.length)
+    );
+    const name = exportFileName(fileName, `${before.name} vs ${after.name}`);
+    if (format === "csv") {
+      downloadFile(
+        toDelimited(table, ","),
+        `${name}.csv`,
+        "text/csv;charset=utf-8"
+      );
+      return;
+    }
+    const summary = diffSummary(diff);
+    downloadFile(
+      toXlsx(table, "Changes", [
+        {
+          name: "Summary",
+          table: selectColumns(
+            summary.headers,
+            summary.rows,
+            [0, 1, 2],
+            untyped(3)
+          )
+        }
+      ]),
+      `${name}.xlsx`,
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+  }
+
+  const columnsWithNotes = diff.columns.filter(
+    (column, i) =>
+      diff.columnChanges[i] > 0 ||
+      column.before === null ||
+      column.after === null
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="flex h-[90vh] w-full max-w-6xl flex-col gap-3 rounded-2xl border border-slate-700/80 bg-slate-900 p-4 text-[11px]">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="text-sm font-semibold text-sky-200">
+              Compare sheets
+            </h2>
+            <p className="text-slate-400">
+              Load both versions (use + Add file for a second upload), then pick
+              which one is the old and which the new.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-slate-700/80 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              Old version
+            </span>
+            <select
+              value={beforeIndex}
+              onChange={(e) => setBeforeIndex(Number(e.target.value))}
+              className={selectClass}
+            >
+              {sheets.map((sheet, i) => (
+                <option key={sheet.name} value={i}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              New version
+            </span>
+            <select
+              value={afterIndex}
+              onChange={(e) => setAfterIndex(Number(e.target.value))}
+              className={selectClass}
+            >
+              {sheets.map((sheet, i) => (
+                <option key={sheet.name} value={i}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              Match rows
+            </span>
+            <select
+              value={matchBy === "key" ? `key:${key}` : "position"}
+              onChange={(e) => {
+                const value = e.target.value;
+                if (value === "position") {
+                  setBy("position");
+                  return;
+                }
+                setBy("key");
+                setChosenKey(value.slice(4));
+              }}
+              className={selectClass}
+            >
+              {keyOptions.map((name) => (
+                <option key={name} value={`key:${name}`}>
+                  By key: {name}
+                </option>
+              ))}
+              <option value="position">By position (row number)</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-800/80 bg-slate-950/60 px-3 py-2">
+          <span className="text-emerald-300">+{diff.counts.added} added</span>
+          <span className="text-rose-300">−{diff.counts.removed} removed</span>
+          <span className="text-amber-300">~{diff.counts.changed} changed</span>
+          <span className="text-slate-400">
+            {diff.counts.unchanged} unchanged
+          </span>
+          {diff.duplicateKeys > 0 && (
+            <span className="text-amber-200">
+              {diff.duplicateKeys} key value
+              {diff.duplicateKeys !== 1 ? "s are" : " is"} used by several rows;
+              those are paired in order.
+            </span>
+          )}
+          <span className="ml-auto flex items-center gap-2">
+            <label className="flex items-center gap-1 text-slate-300">
+              <input
+                type="checkbox"
+                checked={changesOnly}
+                onChange={(e) => setChangesOnly(e.target.checked)}
+                className="accent-sky-500"
+              />
+              Changes only
+            </label>
+            <button
+              type="button"
+              onClick={() => exportReport("xlsx")}
+              className="rounded-lg border border-sky-500/60 px-2 py-0.5 text-sky-200 hover:bg-sky-500/20"
+            >
+              Export .xlsx
+            </button>
+            <button
+              type="button"
+              onClick={() => exportReport("csv")}
+              className="rounded-lg border border-sky-500/60 px-2 py-0.5 text-sky-200 hover:bg-sky-500/20"
+            >
+              Export .csv
+            </button>
+          </span>
+        </div>
+
+        {columnsWithNotes.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {columnsWithNotes.map((column) => {
+              const i = diff.columns.indexOf(column);
+              return (
+                <span
+                  key={i}
+                  className="rounded-full bg-slate-800/80 px-2 py-0.5 text-slate-300"
+                >
+                  {column.name}:{" "}
+                  {column.before === null ? (
+                    <span className="text-emerald-300">new column</span>
+                  ) : column.after === null ? (
+                    <span className="text-rose-300">removed column</span>
+                  ) : (
+                    <span className="text-amber-300">
+                      {diff.columnChanges[i]} changed
+                    </span>
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        <div
+          ref={setScrollEl}
+          className="min-h-0 flex-1 overflow-auto rounded-xl border border-slate-800/80"
+        >
+          <table className="min-w-full border-separate border-spacing-0">
+            <thead className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur-md">
+              <tr>
+                <th className="border-b border-slate-700/80 px-3 py-1.5 text-left text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                  Status
+                </th>
+                {diff.columns.map((column, i) => (
+                  <th
+                    key={i}
+                    className={`border-b border-slate-700/80 px-3 py-1.5 text-left text-[10px] font-semibold uppercase tracking-wide whitespace-nowrap ${
+                      column.before === null
+                        ? "text-emerald-300"
+                        : column.after === null
+                        ? "text-rose-300 line-through"
+                        : "text-slate-300"
+                    }`}
+                  >
+                    {column.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {virtualRows.paddingTop > 0 && (
+                <tr style={{ height: virtualRows.paddingTop }} />
+              )}
+              {rowsToDisplay.map((row, index) => (
+                <tr
+                  key={virtualRows.start + index}
+                  style={{ height: ROW_HEIGHT }}
+                  className={ROW_BACKGROUNDS[row.status]}
+                >
+                  <td
+                    className={`border-b border-slate-800/60 px-3 whitespace-nowrap ${
+                      STATUS_STYLES[row.status].className
+                    }`}
+                  >
+                    {STATUS_STYLES[row.status].label}
+                  </td>
+                  {diff.columns.map((column, i) => {
+                    const oldValue = diffCell(
+                      before,
+                      row.before,
+                      column.before
+                    );
+                    const newValue = diffCell(after, row.after, column.after);
+                    return (
+                      <td
+                        key={i}
+                        className={`max-w-xs truncate border-b border-slate-800/60 px-3 whitespace-nowrap ${
+                          row.status === "removed"
+                            ? "text-rose-200/80 line-through"
+                            : "text-slate-100"
+                        }`}
+                      >
+                        {row.changed.includes(i) ? (
+                          <span className="rounded bg-amber-500/15 px-1">
+                            <span className="text-rose-300 line-through">
+                              {display(oldValue)}
+                            </span>
+                            <span className="text-slate-500"> → </span>
+                            <span className="text-emerald-200">
+                              {display(newValue)}
+                            </span>
+                          </span>
+                        ) : (
+                          display(row.after === null ? oldValue : newValue)
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {virtualRows.paddingBottom > 0 && (
+                <tr style={{ height: virtualRows.paddingBottom }} />
+              )}
+              {shownRows.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={diff.columns.length + 1}
+                    className="px-3 py-4 text-center text-xs text-slate-400"
+                  >
+                    {beforeIndex === afterIndex
+                      ? "Pick two different sheets to compare."
+                      : "No differences."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { ComputedColumn, ParsedSheet } from "../lib/types";
+import {
+  computedStart,
+  FORMULA_FUNCTIONS,
+  formulaError,
+  isFormulaError,
+  previewFormula
+} from "../lib/formula";
+import { isEmptyCell } from "../lib/values";
+
+type ComputedColumnsPanelProps = {
+  sheet: ParsedSheet;
+  onChange: (computed: ComputedColumn[]) => void;
+};
+
+const PREVIEW_ROWS = 5;
+
+const inputClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-400";
+
+export default function ComputedColumnsPanel({
+  sheet,
+  onChange
+}: ComputedColumnsPanelProps) {
+  const computed = sheet.computed ?? [];
+  // Index of the computed column being edited, or null when adding one
+  const [editing, setEditing] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+
+  // A column can use the file's columns and the computed ones before it
+  const position = editing ?? computed.length;
+  const available = useMemo(
+    () => sheet.headers.slice(0, computedStart(sheet) + position),
+    [sheet, position]
+  );
+  const draft: ComputedColumn = { name: name.trim(), expression };
+
+  const expressionProblem = useMemo(
+    () => formulaError(expression, available),
+    [expression, available]
+  );
+  const nameTaken = sheet.headers.some(
+    (h, i) =>
+      h.toLowerCase() === draft.name.toLowerCase() &&
+      i !== computedStart(sheet) + position
+  );
+  const canSave = !!draft.name && !nameTaken && !expressionProblem;
+
+  const preview = useMemo(
+    () =>
+      expressionProblem
+        ? []
+        : previewFormula(
+            sheet,
+            [...computed.slice(0, position), draft],
+            PREVIEW_ROWS
+          ),
+    [sheet, expression, expressionProblem, position]
+  );
+
+  function reset() {
+    setEditing(null);
+    setName("");
+    setExpression("");
+  }
+
+  function startEditing(index: number) {
+    setEditing(index);
+    setName(computed[index].name);
+    setExpression(computed[index].expression);
+  }
+
+  function save() {
+    if (!canSave) return;
+    onChange(
+      editing === null
+        ? [...computed, draft]
+        : computed.map((c, i) => (i === editing ? draft : c))
+    );
+    reset();
+  }
+
+  return (
+    <div className="relative border-b border-slate-800/80 bg-slate-900/60 px-4 py-2 text-[11px] space-y-2">
+      {computed.length > 0 && (
+        <ul className="space-y-1">
+          {computed.map((column, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className="text-violet-300">ƒ</span>
+              <span className="text-slate-100">{column.name}</span>
+              <span className="text-slate-500">=</span>
+              <code className="truncate text-slate-300">
+                {column.expression}
+              </code>
+              <span className="ml-auto flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => startEditing(index)}
+                  className="text-[10px] text-sky-300 hover:text-sky-200"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(computed.filter((_, i) => i !== index));
+                    if (editing !== null) reset();
+                  }}
+                  className="text-[10px] text-rose-300 hover:text-rose-200"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Revenue"
+          title={nameTaken ? "There is already a column with this name" : ""}
+          className={`${inputClass} w-36 ${nameTaken ? "border-rose-500" : ""}`}
+        />
+        <span className="text-slate-500">=</span>
+        <input
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") reset();
+          }}
+          placeholder="Qty * [Unit Price]"
+          spellCheck={false}
+          className={`${inputClass} flex-1 font-mono`}
+        />
+        <button
+          type="button"
+          onClick={save}
+          disabled={!canSave}
+          className="rounded-lg border border-violet-400/60 bg-violet-500/20 px-2 py-1 text-violet-100 hover:bg-violet-500/30 disabled:opacity-40"
+        >
+          {editing === null ? "Add column" : "Save"}
+        </button>
+        {editing !== null && (
+          <button
+            type="button"
+            onClick={reset}
+            className="text-[10px] text-slate-400 hover:text-slate-200"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        {expression.trim() && expressionProblem ? (
+          <p className="text-rose-300">{expressionProblem}</p>
+        ) : preview.length ? (
+          <p className="truncate text-slate-400">
+            Preview:{" "}
+            {preview.map((value, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && <span className="text-slate-600"> · </span>}
+                <span
+                  className={
+                    isFormulaError(value) ? "text-rose-300" : "text-slate-200"
+                  }
+                >
+                  {isEmptyCell(value) ? "—" : String(value)}
+                </span>
+              </React.Fragment>
+            ))}
+          </p>
+        ) : (
+          <p className="text-slate-500">
+            Refer to columns by header; use [brackets] for names with spaces or
+            symbols. Text goes in "quotes".
+          </p>
+        )}
+        <details className="shrink-0 text-slate-400">
+          <summary className="cursor-pointer select-none text-[10px] text-sky-300 hover:text-sky-200">
+            Functions
+          </summary>
+          <div className="absolute right-4 z-20 mt-1 max-h-64 w-96 overflow-auto rounded-xl border border-slate-700/80 bg-slate-950 p-3 shadow-xl">
+            <p className="mb-2 text-slate-300">
+              Operators: + - * / ^, & (join text), = &lt;&gt; &lt; &lt;= &gt;
+              &gt;=
+            </p>
+            <ul className="space-y-1">
+              {Object.values(FORMULA_FUNCTIONS).map((fn) => (
+                <li key={fn.signature}>
+                  <code className="text-violet-200">{fn.signature}</code>
+                  <span className="text-slate-500"> — {fn.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </details>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  convertRows,
+  CSV_DATE_FORMATS,
+  CSV_DELIMITER_OPTIONS,
+  CSV_ENCODINGS,
+  CsvDateFormat,
+  CsvOptions,
+  DecimalSeparator,
+  decodeText,
+  detectCsvOptions,
+  detectEncoding,
+  ThousandsSeparator
+} from "../lib/csv";
+
+type CsvImportDialogProps = {
+  fileName: string;
+  buffer: ArrayBuffer;
+  onImport: (options: CsvOptions) => void;
+  onCancel: () => void;
+};
+
+// Only the start of the file is decoded for detection and the preview
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 15;
+
+const QUOTES = [
+  { value: '"', label: 'Double (")' },
+  { value: "'", label: "Single (')" },
+  { value: "", label: "None" }
+];
+
+const THOUSANDS: { value: ThousandsSeparator; label: string }[] = [
+  { value: ",", label: "Comma (1,000)" },
+  { value: ".", label: "Dot (1.000)" },
+  { value: " ", label: "Space (1 000)" },
+  { value: "'", label: "Apostrophe (1'000)" },
+  { value: "", label: "None" }
+];
+
+const selectClass =
+  "w-full rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+function Field({
+  label,
+  children
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] uppercase tracking-wide text-slate-400">
+        {label}
+      </span>
+      {children}
+    </label>
+  );
+}
+
+export default function CsvImportDialog({
+  fileName,
+  buffer,
+  onImport,
+  onCancel
+}: CsvImportDialogProps) {
+  const head = useMemo(() => buffer.slice(0, PREVIEW_BYTES), [buffer]);
+
+  const [options, setOptions] = useState<CsvOptions>(() => {
+    const encoding = detectEncoding(new Uint8Array(head));
+    return detectCsvOptions(decodeText(head, encoding), encoding);
+  });
+
+  const preview = useMemo(() => {
+    try {
+      const text = decodeText(head, options.encoding);
+      return { rows: convertRows(text, options, PREVIEW_ROWS), error: null };
+    } catch (err) {
+      return { rows: [], error: "This browser can't decode that encoding." };
+    }
+  }, [head, options]);
+
+  const width = Math.max(0, ...preview.rows.map((row) => row.length));
+
+  function update(patch: Partial<CsvOptions>) {
+    setOptions((prev) => ({ ...prev, ...patch }));
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col gap-3 rounded-2xl border border-slate-700/80 bg-slate-900 p-4">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-sky-200">
+            Import {fileName}
+          </h2>
+          <p className="text-[11px] text-slate-400">
+            Settings were detected from the file; adjust them until the preview
+            looks right. Numbers show in blue, converted dates in green.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <Field label="Delimiter">
+            <select
+              value={options.delimiter}
+              onChange={(e) => update({ delimiter: e.target.value })}
+              className={selectClass}
+            >
+              {CSV_DELIMITER_OPTIONS.map((d) => (
+                <option key={d.label} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Encoding">
+            <select
+              value={options.encoding}
+              onChange={(e) => update({ encoding: e.target.value })}
+              className={selectClass}
+            >
+              {CSV_ENCODINGS.map((enc) => (
+                <option key={enc.value} value={enc.value}>
+                  {enc.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Quote character">
+            <select
+              value={options.quote}
+              onChange={(e) => update({ quote: e.target.value })}
+              className={selectClass}
+            >
+              {QUOTES.map((q) => (
+                <option key={q.label} value={q.value}>
+                  {q.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Rows to skip">
+            <input
+              type="number"
+              min={0}
+              value={options.skipRows}
+              onChange={(e) =>
+                update({ skipRows: Math.max(0, Number(e.target.value) || 0) })
+              }
+              className={selectClass}
+            />
+          </Field>
+          <Field label="Decimal separator">
+            <select
+              value={options.decimal}
+              onChange={(e) =>
+                update({ decimal: e.target.value as DecimalSeparator })
+              }
+              className={selectClass}
+            >
+              <option value=".">Dot (1.5)</option>
+              <option value=",">Comma (1,5)</option>
+            </select>
+          </Field>
+          <Field label="Thousands separator">
+            <select
+              value={options.thousands}
+              onChange={(e) =>
+                update({ thousands: e.target.value as ThousandsSeparator })
+              }
+              className={selectClass}
+            >
+              {THOUSANDS.map((t) => (
+                <option key={t.label} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Date format">
+            <select
+              value={options.dateFormat}
+              onChange={(e) =>
+                update({ dateFormat: e.target.value as CsvDateFormat })
+              }
+              className={selectClass}
+            >
+              {CSV_DATE_FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-xl border border-slate-800/80 bg-slate-950/70">
+          {preview.error ? (
+            <p className="p-4 text-xs text-rose-200">{preview.error}</p>
+          ) : (
+            <table className="min-w-full border-collapse text-[11px]">
+              <tbody>
+                {preview.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-slate-800/60">
+                    <td className="px-2 py-1 text-right text-[10px] text-slate-500">
+                      {options.skipRows + r + 1}
+                    </td>
+                    {Array.from({ length: width }, (_, c) => {
+                      const value = row[c] ?? null;
+                      const color =
+                        typeof value === "number"
+                          ? "text-sky-300"
+                          : options.dateFormat !== "auto" &&
+                            typeof value === "string" &&
+                            ISO_DATE.test(value)
+                          ? "text-emerald-300"
+                          : "text-slate-200";
+                      return (
+                        <td
+                          key={c}
+                          className={`max-w-[12rem] truncate px-2 py-1 ${color}`}
+                        >
+                          {value === null ? "" : String(value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-slate-700/80 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={!!preview.error}
+            onClick={() => onImport(options)}
+            className="rounded-xl border border-sky-400/60 bg-sky-500/20 px-3 py-1.5 text-xs text-sky-50 hover:bg-sky-500/30 disabled:opacity-40"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,570 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  CellDetail,
+  CellValue,
+  ColumnFormat,
+  ColumnType
+} from "../lib/types";
+import type { SortKey } from "../lib/sort";
+import { useVirtualRows } from "../lib/useVirtualRows";
+import { formatCell, isEmptyCell } from "../lib/values";
+import { cellInputText, cellKey, parseCellInput } from "../lib/edits";
+import { FORMULA_ERRORS, isFormulaError } from "../lib/formula";
+import type { Aggregation } from "../lib/aggregate";
+import GroupByBar from "./GroupByBar";
+import {
+  aggregateRows,
+  ColumnAggregates,
+  COLUMN_DRAG_TYPE,
+  groupTableRows,
+  TABLE_AGGREGATIONS,
+  TableItem
+} from "../lib/grouping";
+import { compileFormatRules, FormatRule } from "../lib/conditionalFormat";
+
+type DataTableProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  columnFormats?: ColumnFormat[];
+  columnVisibility: boolean[];
+  // Expression of each computed column (null for others); those aren't editable
+  expressions?: (string | null)[];
+  // Filtered + sorted rows to show
+  rows: CellValue[][];
+  // Index of a displayed row in the sheet, so edits land on the right row
+  sourceIndex: (row: CellValue[]) => number;
+  sortKeys: SortKey[];
+  onSort: (column: number, additive: boolean) => void;
+  // cellKey()s of cells whose value differs from the uploaded file
+  changedCells: Set<string>;
+  // Excel's text, formulas and links by cellKey() (workbook sheets only)
+  cellDetails?: Record<string, CellDetail>;
+  // Excel's formatted text rather than the typed value
+  showFormatted: boolean;
+  onEditCell: (row: number, column: number, value: CellValue) => void;
+  // Columns rows are grouped by, outermost first
+  groupBy: number[];
+  onGroupByChange: (groupBy: number[]) => void;
+  // Shown in group rows and the footer
+  columnAggregates: ColumnAggregates;
+  onAggregateChange: (column: number, aggregation: Aggregation | null) => void;
+  formatRules: FormatRule[];
+  // Failed validation messages by cellKey(), shown as badges
+  cellIssues?: Map<string, string[]>;
+  // Sheet row (and cell) to scroll to; a new object scrolls there again
+  focusRow?: { row: number; column?: number } | null;
+  // Ranges of a cell's shown text to mark as search matches
+  highlight?: (
+    value: CellValue,
+    text: string,
+    column: number
+  ) => [number, number][];
+};
+
+type EditingCell = {
+  row: number;
+  column: number;
+  text: string;
+  error: string | null;
+};
+
+// Fixed row height (px) so the virtualized table can compute offsets.
+const ROW_HEIGHT = 28;
+
+// Links that are safe to open from the grid (not javascript: etc.)
+const OPENABLE_LINK = /^(https?:|mailto:)/i;
+
+// Wraps the given ranges of a cell's text in <mark>
+function markRanges(text: string, ranges: [number, number][]): React.ReactNode {
+  if (!ranges.length) return text;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-amber-400/40 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return parts;
+}
+
+export default function DataTable({
+  headers,
+  columnTypes,
+  columnFormats,
+  columnVisibility,
+  expressions,
+  rows,
+  sourceIndex,
+  sortKeys,
+  onSort,
+  changedCells,
+  cellDetails,
+  showFormatted,
+  onEditCell,
+  groupBy,
+  onGroupByChange,
+  columnAggregates,
+  onAggregateChange,
+  formatRules,
+  cellIssues,
+  focusRow,
+  highlight
+}: DataTableProps) {
+  const [scrollEl, setScrollEl] = useState<HTMLDivElement | null>(null);
+  const [editing, setEditingState] = useState<EditingCell | null>(null);
+  // Mirrors `editing` so Enter followed by the input's blur commits once
+  const editingRef = useRef<EditingCell | null>(null);
+
+  // Ids of collapsed groups; a different grouping starts expanded
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const groupKey = groupBy.join(",");
+  useEffect(() => setCollapsed(new Set()), [groupKey]);
+
+  const items: TableItem[] = useMemo(
+    () =>
+      groupBy.length
+        ? groupTableRows(rows, groupBy, columnAggregates, collapsed)
+        : rows.map((row) => ({ kind: "row", row })),
+    [rows, groupKey, columnAggregates, collapsed]
+  );
+  const totals = useMemo(
+    () => aggregateRows(rows, columnAggregates),
+    [rows, columnAggregates]
+  );
+  const formatters = useMemo(
+    () => compileFormatRules(formatRules, rows, columnTypes),
+    [formatRules, rows, columnTypes]
+  );
+
+  // Scroll a requested row into view once, expanding groups that hide it
+  const scrolledToRef = useRef<typeof focusRow>(null);
+  useEffect(() => {
+    if (!focusRow || !scrollEl || scrolledToRef.current === focusRow) return;
+    const index = items.findIndex(
+      (item) => item.kind === "row" && sourceIndex(item.row) === focusRow.row
+    );
+    if (index >= 0) {
+      scrollEl.scrollTop = Math.max(0, (index - 2) * ROW_HEIGHT);
+      scrolledToRef.current = focusRow;
+      // Bring the cell into view sideways once the rows have rendered
+      requestAnimationFrame(() =>
+        scrollEl
+          .querySelector(`[data-cell="${focusRow.row}:${focusRow.column}"]`)
+          ?.scrollIntoView({ block: "nearest", inline: "nearest" })
+      );
+    } else if (collapsed.size) {
+      setCollapsed(new Set());
+    }
+  }, [focusRow, scrollEl, items]);
+
+  // Only the rows inside the scroll viewport are rendered
+  const virtualRows = useVirtualRows(scrollEl, items.length, ROW_HEIGHT);
+  const itemsToDisplay = items.slice(virtualRows.start, virtualRows.end);
+  const visibleColumns = headers
+    .map((_, index) => index)
+    .filter((index) => columnVisibility[index]);
+  const visibleCount = visibleColumns.length;
+
+  function toggleGroup(id: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function collapseAll(collapse: boolean) {
+    setCollapsed(
+      new Set(
+        collapse
+          ? items.flatMap((item) =>
+              item.kind === "group" && item.depth === 0 ? [item.id] : []
+            )
+          : []
+      )
+    );
+  }
+
+  function formatAggregate(value: number | null | undefined, column: number) {
+    if (value === null || value === undefined) return "—";
+    return columnAggregates[column] === "count"
+      ? value.toLocaleString()
+      : formatCell(value, "numeric", columnFormats?.[column]);
+  }
+
+  function setEditing(next: EditingCell | null) {
+    editingRef.current = next;
+    setEditingState(next);
+  }
+
+  function startEditing(row: number, column: number, value: CellValue) {
+    setEditing({
+      row,
+      column,
+      text: cellInputText(value, columnTypes[column]),
+      error: null
+    });
+  }
+
+  // Returns false (and shows the error) when the text doesn't fit the column
+  function commitEditing(current: CellValue) {
+    const editing = editingRef.current;
+    if (!editing) return true;
+    const parsed = parseCellInput(editing.text, columnTypes[editing.column]);
+    if ("error" in parsed) {
+      setEditing({ ...editing, error: parsed.error });
+      return false;
+    }
+    if (parsed.value !== (current ?? null)) {
+      onEditCell(editing.row, editing.column, parsed.value);
+    }
+    setEditing(null);
+    return true;
+  }
+
+  return (
+    <div className="flex flex-1 flex-col min-h-0">
+      <GroupByBar
+        headers={headers}
+        groupBy={groupBy}
+        onChange={onGroupByChange}
+        onCollapseAll={collapseAll}
+      />
+      <div ref={setScrollEl} className="flex-1 overflow-auto">
+        <table className="min-w-full border-collapse text-xs">
+          <thead className="sticky top-0 z-10">
+            <tr className="bg-slate-900/95 backdrop-blur-md">
+              {headers.map((header, index) => {
+                if (!columnVisibility[index]) return null;
+
+                const sortPosition = sortKeys.findIndex(
+                  (k) => k.column === index
+                );
+                const sortKey = sortKeys[sortPosition];
+
+                return (
+                  <th
+                    key={index}
+                    onClick={(e) => onSort(index, e.shiftKey)}
+                    draggable
+                    onDragStart={(e) =>
+                      e.dataTransfer.setData(COLUMN_DRAG_TYPE, String(index))
+                    }
+                    title="Click to sort, Shift+click to add a sort key, drag to group"
+                    className="border-b border-slate-800/80 px-3 py-2 text-left font-semibold uppercase tracking-wide text-[10px] text-slate-200 cursor-pointer select-none"
+                  >
+                    <div className="flex items-center gap-1">
+                      {expressions?.[index] && (
+                        <span
+                          title={`= ${expressions[index]}`}
+                          className="text-violet-300 normal-case"
+                        >
+                          ƒ
+                        </span>
+                      )}
+                      <span>
+                        {header || (
+                          <span className="italic text-slate-500">
+                            Column {index + 1}
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-[9px] text-slate-400">
+                        {sortKey?.direction === "asc" && "▲"}
+                        {sortKey?.direction === "desc" && "▼"}
+                        {!sortKey && "⇵"}
+                        {sortKey && sortKeys.length > 1 && (
+                          <sup className="ml-0.5 text-sky-300">
+                            {sortPosition + 1}
+                          </sup>
+                        )}
+                      </span>
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {virtualRows.paddingTop > 0 && (
+              <tr style={{ height: virtualRows.paddingTop }} />
+            )}
+            {itemsToDisplay.map((item, offset) => {
+              const rowIndex = virtualRows.start + offset;
+              if (item.kind === "group") {
+                const isCollapsed = collapsed.has(item.id);
+                return (
+                  <tr
+                    key={`group-${item.id}`}
+                    className="bg-slate-800/70 text-slate-100"
+                  >
+                    {visibleColumns.map((column, position) => (
+                      <td key={column} className="p-0">
+                        <div
+                          style={{
+                            height: ROW_HEIGHT,
+                            lineHeight: `${ROW_HEIGHT - 1}px`,
+                            paddingLeft: position
+                              ? undefined
+                              : 12 + item.depth * 16
+                          }}
+                          className="max-w-xs truncate border-b border-slate-700/60 px-3 text-[11px]"
+                        >
+                          {position === 0 ? (
+                            <button
+                              type="button"
+                              onClick={() => toggleGroup(item.id)}
+                              className="font-medium text-sky-100 hover:text-sky-200"
+                            >
+                              <span className="mr-1 inline-block w-3 text-slate-400">
+                                {isCollapsed ? "▸" : "▾"}
+                              </span>
+                              <span className="text-slate-400">
+                                {headers[item.column] ||
+                                  `Column ${item.column + 1}`}
+                                :
+                              </span>{" "}
+                              {isEmptyCell(item.value)
+                                ? "(blank)"
+                                : formatCell(
+                                    item.value,
+                                    columnTypes[item.column],
+                                    columnFormats?.[item.column]
+                                  )}{" "}
+                              <span className="text-slate-400">
+                                ({item.count})
+                              </span>
+                            </button>
+                          ) : (
+                            column in columnAggregates && (
+                              <span className="font-medium text-emerald-200">
+                                {formatAggregate(
+                                  item.aggregates[column],
+                                  column
+                                )}
+                              </span>
+                            )
+                          )}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              }
+
+              const row = item.row;
+              const source = sourceIndex(row);
+              return (
+                <tr
+                  key={rowIndex}
+                  className={`${
+                    rowIndex % 2 === 0 ? "bg-slate-900/40" : "bg-slate-900/10"
+                  } ${
+                    focusRow?.row === source
+                      ? "outline outline-1 -outline-offset-1 outline-rose-400/70"
+                      : ""
+                  }`}
+                >
+                  {row.map((cell, cellIndex) => {
+                    if (!columnVisibility[cellIndex]) return null;
+
+                    const isEditing =
+                      editing?.row === source && editing.column === cellIndex;
+                    const key = cellKey(source, cellIndex);
+                    const changed = changedCells.has(key);
+                    const expression = expressions?.[cellIndex];
+                    const failed = !!expression && isFormulaError(cell);
+                    // Editing drops Excel's text and formula (see setCell)
+                    const detail = cellDetails?.[key];
+                    const link = detail?.link;
+                    const conditional = formatters.get(cellIndex)?.(cell);
+                    const issues = cellIssues?.get(key);
+                    const focused =
+                      focusRow?.row === source && focusRow.column === cellIndex;
+                    // Data bar drawn as a hard-edged gradient behind the text
+                    const bar =
+                      conditional?.bar !== undefined
+                        ? `linear-gradient(to right, ${conditional.barColor} ${
+                            conditional.bar * 100
+                          }%, transparent 0)`
+                        : undefined;
+                    const text = !showFormatted
+                      ? isEmptyCell(cell)
+                        ? "—"
+                        : String(cell)
+                      : detail?.text ??
+                        formatCell(
+                          cell,
+                          columnTypes[cellIndex],
+                          columnFormats?.[cellIndex]
+                        );
+
+                    const shown =
+                      highlight && !isEmptyCell(cell)
+                        ? markRanges(text, highlight(cell, text, cellIndex))
+                        : text;
+
+                    return (
+                      <td key={cellIndex} className="p-0">
+                        {/* Fixed-height wrapper keeps every row exactly ROW_HEIGHT */}
+                        {isEditing ? (
+                          <div className="relative">
+                            <input
+                              autoFocus
+                              value={editing.text}
+                              onChange={(e) =>
+                                setEditing({
+                                  ...editing,
+                                  text: e.target.value,
+                                  error: null
+                                })
+                              }
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") commitEditing(cell);
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                              onBlur={() => {
+                                // Leaving an invalid value discards the edit
+                                if (!commitEditing(cell)) setEditing(null);
+                              }}
+                              style={{ height: ROW_HEIGHT }}
+                              className={`w-full min-w-[6rem] bg-slate-950 px-3 text-[11px] text-slate-100 focus:outline-none border ${
+                                editing.error
+                                  ? "border-rose-500"
+                                  : "border-sky-400"
+                              }`}
+                            />
+                            {editing.error && (
+                              <span className="absolute left-0 top-full z-20 whitespace-nowrap rounded bg-rose-900/90 px-2 py-0.5 text-[10px] text-rose-100">
+                                {editing.error}
+                              </span>
+                            )}
+                          </div>
+                        ) : (
+                          <div
+                            data-cell={`${source}:${cellIndex}`}
+                            onDoubleClick={() => {
+                              if (!expression) {
+                                startEditing(source, cellIndex, cell);
+                              }
+                            }}
+                            title={
+                              issues
+                                ? issues.join("\n")
+                                : failed
+                                ? FORMULA_ERRORS[cell as string]
+                                : expression
+                                ? `= ${expression}`
+                                : detail?.formula ?? link
+                            }
+                            style={{
+                              height: ROW_HEIGHT,
+                              lineHeight: `${ROW_HEIGHT - 1}px`,
+                              // The edited-cell tint takes precedence
+                              backgroundColor: changed
+                                ? undefined
+                                : conditional?.background,
+                              backgroundImage: bar
+                            }}
+                            className={`relative max-w-xs truncate border-b border-slate-800/60 px-3 text-[11px] ${
+                              focused ? "ring-1 ring-inset ring-amber-300" : ""
+                            } ${
+                              changed
+                                ? "bg-amber-500/15 text-amber-100"
+                                : failed
+                                ? "text-rose-300"
+                                : "text-slate-100"
+                            }`}
+                          >
+                            {link && OPENABLE_LINK.test(link) ? (
+                              <a
+                                href={link}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-sky-300 underline decoration-sky-500/50 hover:text-sky-200"
+                              >
+                                {shown}
+                              </a>
+                            ) : (
+                              shown
+                            )}
+                            {detail?.formula && (
+                              <span className="ml-1 align-super text-[8px] text-violet-300">
+                                ƒ
+                              </span>
+                            )}
+                            {issues && (
+                              <span className="absolute right-0 top-0 h-0 w-0 border-l-[7px] border-t-[7px] border-l-transparent border-t-rose-500" />
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {virtualRows.paddingBottom > 0 && (
+              <tr style={{ height: virtualRows.paddingBottom }} />
+            )}
+
+            {items.length === 0 && (
+              <tr>
+                <td
+                  colSpan={visibleCount || 1}
+                  className="px-3 py-4 text-center text-xs text-slate-400"
+                >
+                  No rows match the current filters/search.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot className="sticky bottom-0 z-10">
+            <tr className="bg-slate-900/95 backdrop-blur-md">
+              {visibleColumns.map((column) => (
+                <td
+                  key={column}
+                  className="border-t border-slate-700/80 px-3 py-1 text-[11px]"
+                >
+                  <div className="flex items-center gap-1 whitespace-nowrap">
+                    <select
+                      value={columnAggregates[column] ?? ""}
+                      onChange={(e) =>
+                        onAggregateChange(
+                          column,
+                          (e.target.value || null) as Aggregation | null
+                        )
+                      }
+                      title="Aggregate over the filtered rows and each group"
+                      className="rounded bg-slate-900 border border-slate-700/80 px-1 text-[10px] text-slate-400 focus:outline-none"
+                    >
+                      <option value="">Σ</option>
+                      {TABLE_AGGREGATIONS.map((a) => (
+                        <option key={a.value} value={a.value}>
+                          {a.label}
+                        </option>
+                      ))}
+                    </select>
+                    {column in columnAggregates && (
+                      <span className="font-medium text-emerald-200">
+                        {formatAggregate(totals[column], column)}
+                      </span>
+                    )}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState } from "react";
+import type { CellValue, ColumnFormat, ColumnType } from "../lib/types";
+import {
+  CSV_DELIMITERS,
+  defaultExportOptions,
+  downloadFile,
+  ExportFormat,
+  ExportOptions,
+  exportFileName,
+  selectColumns,
+  toDelimited,
+  toJson,
+  toXlsx
+} from "../lib/export";
+import type { FormatRule } from "../lib/conditionalFormat";
+
+type ExportMenuProps = {
+  fileName: string | null;
+  sheetName: string;
+  headers: string[];
+  columnTypes: ColumnType[];
+  columnFormats?: ColumnFormat[];
+  columnVisibility: boolean[];
+  // Filtered + sorted rows, and every row of the sheet
+  viewRows: CellValue[][];
+  allRows: CellValue[][];
+  // Written into .xlsx files as Excel conditional formatting
+  formatRules: FormatRule[];
+};
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "clipboard", label: "Copy as TSV" }
+];
+
+const selectClass =
+  "w-full rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+export default function ExportMenu({
+  fileName,
+  sheetName,
+  headers,
+  columnTypes,
+  columnFormats,
+  columnVisibility,
+  viewRows,
+  allRows,
+  formatRules
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(defaultExportOptions);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const rows = options.scope === "view" ? viewRows : allRows;
+  const columns = headers
+    .map((_, i) => i)
+    .filter((i) => options.includeHidden || columnVisibility[i] !== false);
+
+  function update(patch: Partial<ExportOptions>) {
+    setOptions((prev) => ({ ...prev, ...patch }));
+    setStatus(null);
+  }
+
+  async function runExport() {
+    const table = selectColumns(
+      headers,
+      rows,
+      columns,
+      columnTypes,
+      columnFormats,
+      formatRules
+    );
+    const name = exportFileName(fileName, sheetName);
+
+    try {
+      switch (options.format) {
+        case "xlsx":
+          downloadFile(
+            toXlsx(table, sheetName),
+            `${name}.xlsx`,
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          );
+          break;
+        case "csv":
+          downloadFile(
+            toDelimited(table, options.delimiter),
+            `${name}.csv`,
+            "text/csv;charset=utf-8"
+          );
+          break;
+        case "json":
+          downloadFile(toJson(table), `${name}.json`, "application/json");
+          break;
+        case "clipboard":
+          await navigator.clipboard.writeText(toDelimited(table, "\t"));
+          setStatus(`Copied ${rows.length} rows to the clipboard.`);
+          return;
+      }
+      setOpen(false);
+    } catch (err) {
+      console.error(err);
+      setStatus("Export failed.");
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="rounded-lg border border-sky-500/60 px-2 py-0.5 text-sky-200 hover:bg-sky-500/20"
+      >
+        Export ▾
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-30 mt-1 w-60 space-y-2 rounded-xl border border-slate-700/80 bg-slate-950 p-3 text-[11px] text-slate-200 shadow-xl shadow-slate-950/80">
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              Format
+            </span>
+            <select
+              value={options.format}
+              onChange={(e) =>
+                update({ format: e.target.value as ExportFormat })
+              }
+              className={selectClass}
+            >
+              {FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {options.format === "csv" && (
+            <label className="block space-y-1">
+              <span className="text-[10px] uppercase tracking-wide text-slate-400">
+                Delimiter
+              </span>
+              <select
+                value={options.delimiter}
+                onChange={(e) => update({ delimiter: e.target.value })}
+                className={selectClass}
+              >
+                {CSV_DELIMITERS.map((d) => (
+                  <option key={d.label} value={d.value}>
+                    {d.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div className="space-y-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              Rows
+            </span>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={options.scope === "view"}
+                onChange={() => update({ scope: "view" })}
+              />
+              Current view ({viewRows.length})
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={options.scope === "all"}
+                onChange={() => update({ scope: "all" })}
+              />
+              All rows ({allRows.length})
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-3 w-3"
+              checked={options.includeHidden}
+              onChange={(e) => update({ includeHidden: e.target.checked })}
+            />
+            Include hidden columns
+          </label>
+
+          <button
+            type="button"
+            disabled={!columns.length}
+            onClick={runExport}
+            className="w-full rounded-lg border border-sky-400/60 bg-sky-500/20 px-3 py-1 text-sky-50 hover:bg-sky-500/30 disabled:opacity-40"
+          >
+            {options.format === "clipboard" ? "Copy" : "Download"} {rows.length}{" "}
+            rows × {columns.length} columns
+          </button>
+
+          {status && <p className="text-[10px] text-slate-400">{status}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
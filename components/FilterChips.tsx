@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+import { describeFilter, FilterState, removeFilter } from "../lib/filters";
+
+type FilterChipsProps = {
+  headers: string[];
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+};
+
+export default function FilterChips({
+  headers,
+  filters,
+  onChange
+}: FilterChipsProps) {
+  const groups = filters.groups.filter((g) => g.filters.length > 0);
+  if (!groups.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 border-b border-slate-800/80 px-4 py-2 text-[11px]">
+      {groups.map((group, groupIndex) => (
+        <React.Fragment key={group.id}>
+          {groupIndex > 0 && (
+            <span className="text-[10px] font-semibold uppercase text-slate-500">
+              {filters.mode}
+            </span>
+          )}
+          <div className="flex flex-wrap items-center gap-1 rounded-full border border-slate-700/80 px-1.5 py-0.5">
+            {group.filters.map((filter, filterIndex) => (
+              <React.Fragment key={filter.id}>
+                {filterIndex > 0 && (
+                  <span className="text-[10px] uppercase text-slate-500">
+                    {group.mode}
+                  </span>
+                )}
+                <span className="inline-flex items-center gap-1 rounded-full bg-sky-500/20 px-2 py-0.5 text-sky-100">
+                  {describeFilter(
+                    filter,
+                    headers[filter.column] || `Column ${filter.column + 1}`
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange(removeFilter(filters, group.id, filter.id))
+                    }
+                    className="text-sky-300 hover:text-rose-300"
+                    aria-label="Remove filter"
+                  >
+                    ×
+                  </button>
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        </React.Fragment>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange({ ...filters, groups: [] })}
+        className="ml-1 text-[10px] text-sky-300 hover:text-sky-200"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+}
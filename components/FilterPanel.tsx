@@ -0,0 +1,297 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { CellValue, ColumnType } from "../lib/types";
+import {
+  ColumnFilter,
+  createFilter,
+  createFilterId,
+  distinctValues,
+  filterError,
+  FilterGroup,
+  FilterOperator,
+  FilterState,
+  MatchMode,
+  operatorsForType,
+  removeFilter
+} from "../lib/filters";
+
+type FilterPanelProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  rows: CellValue[][];
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+};
+
+const inputClass =
+  "w-full rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+function ModeToggle({
+  mode,
+  onChange
+}: {
+  mode: MatchMode;
+  onChange: (mode: MatchMode) => void;
+}) {
+  return (
+    <div className="inline-flex overflow-hidden rounded-md border border-slate-700/80 text-[10px]">
+      {(["and", "or"] as MatchMode[]).map((m) => (
+        <button
+          key={m}
+          type="button"
+          onClick={() => onChange(m)}
+          className={`px-1.5 py-0.5 uppercase ${
+            mode === m
+              ? "bg-sky-500/30 text-sky-100"
+              : "text-slate-400 hover:text-slate-200"
+          }`}
+        >
+          {m}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ValuePicker({
+  rows,
+  column,
+  selected,
+  onChange
+}: {
+  rows: CellValue[][];
+  column: number;
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const options = useMemo(() => distinctValues(rows, column), [rows, column]);
+
+  function toggle(value: string) {
+    onChange(
+      selected.includes(value)
+        ? selected.filter((v) => v !== value)
+        : [...selected, value]
+    );
+  }
+
+  return (
+    <div className="max-h-28 overflow-auto rounded-lg border border-slate-800/80 bg-slate-900/60 p-1 space-y-0.5">
+      {options.map(({ value, count }) => (
+        <label
+          key={value}
+          className="flex items-center gap-2 px-1 text-[11px] text-slate-200"
+        >
+          <input
+            type="checkbox"
+            className="h-3 w-3"
+            checked={selected.includes(value)}
+            onChange={() => toggle(value)}
+          />
+          <span className="flex-1 truncate">{value}</span>
+          <span className="text-[10px] text-slate-500">{count}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function FilterEditor({
+  filter,
+  header,
+  type,
+  rows,
+  onChange,
+  onRemove
+}: {
+  filter: ColumnFilter;
+  header: string;
+  type: ColumnType | undefined;
+  rows: CellValue[][];
+  onChange: (filter: ColumnFilter) => void;
+  onRemove: () => void;
+}) {
+  const error = filterError(filter);
+  const inputType =
+    type === "date" ? "date" : type === "numeric" ? "number" : "text";
+  const isRange =
+    filter.operator === "between" || filter.operator === "dateBetween";
+  const needsValue =
+    filter.operator !== "in" &&
+    filter.operator !== "isEmpty" &&
+    filter.operator !== "notEmpty";
+
+  return (
+    <div className="rounded-lg bg-slate-900/70 p-2 space-y-1">
+      <div className="flex items-center justify-between gap-2 text-[11px]">
+        <span className="truncate text-slate-100">{header}</span>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-slate-500 hover:text-rose-300"
+          aria-label="Remove filter"
+        >
+          ×
+        </button>
+      </div>
+      <select
+        value={filter.operator}
+        onChange={(e) =>
+          onChange({ ...filter, operator: e.target.value as FilterOperator })
+        }
+        className={inputClass}
+      >
+        {operatorsForType(type).map((op) => (
+          <option key={op.value} value={op.value}>
+            {op.label}
+          </option>
+        ))}
+      </select>
+      {needsValue && (
+        <div className="flex items-center gap-1">
+          <input
+            type={inputType}
+            value={filter.value}
+            onChange={(e) => onChange({ ...filter, value: e.target.value })}
+            placeholder={
+              isRange
+                ? "From"
+                : filter.operator === "regex"
+                ? "Pattern"
+                : "Value"
+            }
+            className={`${inputClass} ${error ? "border-rose-500/80" : ""}`}
+          />
+          {isRange && (
+            <input
+              type={inputType}
+              value={filter.valueTo}
+              onChange={(e) => onChange({ ...filter, valueTo: e.target.value })}
+              placeholder="To"
+              className={inputClass}
+            />
+          )}
+        </div>
+      )}
+      {filter.operator === "in" && (
+        <ValuePicker
+          rows={rows}
+          column={filter.column}
+          selected={filter.values}
+          onChange={(values) => onChange({ ...filter, values })}
+        />
+      )}
+      {error && <p className="text-[10px] text-rose-300">{error}</p>}
+    </div>
+  );
+}
+
+export default function FilterPanel({
+  headers,
+  columnTypes,
+  rows,
+  filters,
+  onChange
+}: FilterPanelProps) {
+  function updateGroup(
+    groupId: string,
+    update: (g: FilterGroup) => FilterGroup
+  ) {
+    onChange({
+      ...filters,
+      groups: filters.groups.map((g) => (g.id === groupId ? update(g) : g))
+    });
+  }
+
+  function addFilter(groupId: string | null, column: number) {
+    const filter = createFilter(column, columnTypes[column]);
+    if (groupId === null) {
+      onChange({
+        ...filters,
+        groups: [
+          ...filters.groups,
+          { id: createFilterId("g"), mode: "and", filters: [filter] }
+        ]
+      });
+      return;
+    }
+    updateGroup(groupId, (g) => ({ ...g, filters: [...g.filters, filter] }));
+  }
+
+  function columnSelect(groupId: string | null, label: string) {
+    return (
+      <select
+        value=""
+        onChange={(e) => addFilter(groupId, Number(e.target.value))}
+        className={inputClass}
+      >
+        <option value="" disabled>
+          {label}
+        </option>
+        {headers.map((header, idx) => (
+          <option key={idx} value={idx}>
+            {header || `Column ${idx + 1}`}{" "}
+            {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {filters.groups.length > 1 && (
+        <div className="flex items-center justify-between text-[10px] text-slate-400">
+          <span>Combine groups with</span>
+          <ModeToggle
+            mode={filters.mode}
+            onChange={(mode) => onChange({ ...filters, mode })}
+          />
+        </div>
+      )}
+
+      {filters.groups.map((group, groupIndex) => (
+        <div
+          key={group.id}
+          className="rounded-xl border border-slate-800/80 p-2 space-y-1.5"
+        >
+          <div className="flex items-center justify-between text-[10px] text-slate-400">
+            <span>Group {groupIndex + 1}</span>
+            {group.filters.length > 1 && (
+              <ModeToggle
+                mode={group.mode}
+                onChange={(mode) =>
+                  updateGroup(group.id, (g) => ({ ...g, mode }))
+                }
+              />
+            )}
+          </div>
+          {group.filters.map((filter) => (
+            <FilterEditor
+              key={filter.id}
+              filter={filter}
+              header={headers[filter.column] || `Column ${filter.column + 1}`}
+              type={columnTypes[filter.column]}
+              rows={rows}
+              onChange={(next) =>
+                updateGroup(group.id, (g) => ({
+                  ...g,
+                  filters: g.filters.map((f) => (f.id === next.id ? next : f))
+                }))
+              }
+              onRemove={() =>
+                onChange(removeFilter(filters, group.id, filter.id))
+              }
+            />
+          ))}
+          {columnSelect(group.id, "+ Add condition")}
+        </div>
+      ))}
+
+      {columnSelect(
+        null,
+        filters.groups.length ? "+ New group on column…" : "+ Filter on column…"
+      )}
+    </div>
+  );
+}
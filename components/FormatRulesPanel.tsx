@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useState } from "react";
+import type { ColumnType } from "../lib/types";
+import {
+  createFormatRule,
+  describeRule,
+  FORMAT_COLORS,
+  FormatColor,
+  FormatRule,
+  FormatRuleKind,
+  ruleError,
+  ruleFitsType,
+  ruleKindsForType
+} from "../lib/conditionalFormat";
+
+type FormatRulesPanelProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  rules: FormatRule[];
+  onChange: (rules: FormatRule[]) => void;
+};
+
+const inputClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+function Swatch({ color }: { color: FormatColor }) {
+  const [r, g, b] = FORMAT_COLORS[color].rgb;
+  return (
+    <span
+      className="inline-block h-3 w-3 shrink-0 rounded-sm"
+      style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+    />
+  );
+}
+
+export default function FormatRulesPanel({
+  headers,
+  columnTypes,
+  rules,
+  onChange
+}: FormatRulesPanelProps) {
+  const [draft, setDraft] = useState<FormatRule>(() =>
+    createFormatRule(0, columnTypes[0])
+  );
+  const name = (column: number) => headers[column] || `Column ${column + 1}`;
+  // The sheet or the column's type may have changed since the draft began
+  const column = draft.column < headers.length ? draft.column : 0;
+  const type = columnTypes[column];
+  const kinds = ruleKindsForType(type);
+  const kind = ruleFitsType(draft, type) ? draft.kind : kinds[0].value;
+  const rule: FormatRule = { ...draft, column, kind };
+  const problem = ruleError(rule, type);
+
+  function update(patch: Partial<FormatRule>) {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  }
+
+  function add() {
+    if (problem) return;
+    onChange([...rules, rule]);
+    setDraft({ ...createFormatRule(rule.column, type), color: rule.color });
+  }
+
+  function move(index: number, offset: number) {
+    const next = [...rules];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  }
+
+  return (
+    <div className="border-b border-slate-800/80 bg-slate-900/60 px-4 py-2 text-[11px] space-y-2">
+      {rules.length > 0 && (
+        <ul className="space-y-1">
+          {rules.map((r, index) => {
+            const fits = ruleFitsType(r, columnTypes[r.column]);
+            return (
+              <li key={r.id} className="flex items-center gap-2">
+                <Swatch color={r.color} />
+                <span className="text-slate-100">{name(r.column)}</span>
+                <span className={fits ? "text-slate-300" : "text-slate-500"}>
+                  {describeRule(r, columnTypes[r.column])}
+                </span>
+                {!fits && (
+                  <span className="text-amber-300">
+                    (paused: not for {columnTypes[r.column] ?? "unknown"}{" "}
+                    columns)
+                  </span>
+                )}
+                <span className="ml-auto flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    title="Apply before the rule above"
+                    className="text-[10px] text-slate-400 hover:text-slate-200 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={index === rules.length - 1}
+                    title="Apply after the rule below"
+                    className="text-[10px] text-slate-400 hover:text-slate-200 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(rules.filter((x) => x.id !== r.id))}
+                    className="text-[10px] text-rose-300 hover:text-rose-200"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={rule.column}
+          onChange={(e) => update({ column: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {headers.map((_, column) => (
+            <option key={column} value={column}>
+              {name(column)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => update({ kind: e.target.value as FormatRuleKind })}
+          className={inputClass}
+        >
+          {kinds.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        {(kind === "greaterThan" ||
+          kind === "lessThan" ||
+          kind === "contains") && (
+          <input
+            value={rule.value}
+            onChange={(e) => update({ value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            placeholder={
+              kind === "contains"
+                ? "Text"
+                : type === "date"
+                ? "YYYY-MM-DD"
+                : "Number"
+            }
+            className={`${inputClass} w-28`}
+          />
+        )}
+        {(kind === "top" || kind === "bottom") && (
+          <input
+            type="number"
+            min={1}
+            value={rule.count}
+            onChange={(e) => update({ count: Number(e.target.value) })}
+            className={`${inputClass} w-16`}
+          />
+        )}
+        <span className="flex items-center gap-1">
+          {(Object.keys(FORMAT_COLORS) as FormatColor[]).map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => update({ color })}
+              title={FORMAT_COLORS[color].label}
+              className={`rounded p-0.5 ${
+                rule.color === color
+                  ? "ring-1 ring-slate-200"
+                  : "opacity-60 hover:opacity-100"
+              }`}
+            >
+              <Swatch color={color} />
+            </button>
+          ))}
+        </span>
+        <button
+          type="button"
+          onClick={add}
+          disabled={!!problem}
+          title={problem ?? ""}
+          className="rounded-lg border border-sky-400/60 bg-sky-500/20 px-2 py-1 text-sky-100 hover:bg-sky-500/30 disabled:opacity-40"
+        >
+          Add rule
+        </button>
+        {rules.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="ml-auto text-[10px] text-sky-300 hover:text-sky-200"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <p className="text-slate-500">
+        Scales, duplicates and top/bottom N are measured over the rows shown.
+        When rules color the same cell, the one higher in the list wins.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useState } from "react";
+import { COLUMN_DRAG_TYPE } from "../lib/grouping";
+
+type GroupByBarProps = {
+  headers: string[];
+  groupBy: number[];
+  onChange: (groupBy: number[]) => void;
+  onCollapseAll: (collapse: boolean) => void;
+};
+
+export default function GroupByBar({
+  headers,
+  groupBy,
+  onChange,
+  onCollapseAll
+}: GroupByBarProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const name = (column: number) => headers[column] || `Column ${column + 1}`;
+
+  function addColumn(column: number) {
+    if (!groupBy.includes(column)) onChange([...groupBy, column]);
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(COLUMN_DRAG_TYPE)) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        setDragOver(false);
+        const raw = e.dataTransfer.getData(COLUMN_DRAG_TYPE);
+        if (raw !== "") addColumn(Number(raw));
+      }}
+      className={`flex flex-wrap items-center gap-1.5 border-b px-4 py-1.5 text-[11px] ${
+        dragOver ? "border-sky-400/60 bg-sky-500/10" : "border-slate-800/80"
+      }`}
+    >
+      <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+        Group by
+      </span>
+      {groupBy.map((column, i) => (
+        <React.Fragment key={column}>
+          {i > 0 && <span className="text-slate-600">›</span>}
+          <span className="inline-flex items-center gap-1 rounded-full bg-emerald-500/20 px-2 py-0.5 text-emerald-100">
+            {name(column)}
+            <button
+              type="button"
+              onClick={() => onChange(groupBy.filter((c) => c !== column))}
+              className="text-emerald-300 hover:text-rose-300"
+              aria-label="Remove grouping"
+            >
+              ×
+            </button>
+          </span>
+        </React.Fragment>
+      ))}
+      <select
+        value=""
+        onChange={(e) => addColumn(Number(e.target.value))}
+        className="rounded bg-slate-900 border border-slate-700/80 px-1 text-[10px] text-slate-400 focus:outline-none"
+      >
+        <option value="">
+          {groupBy.length ? "+ then by…" : "Drag a header here or pick…"}
+        </option>
+        {headers.map((_, column) =>
+          groupBy.includes(column) ? null : (
+            <option key={column} value={column}>
+              {name(column)}
+            </option>
+          )
+        )}
+      </select>
+      {groupBy.length > 0 && (
+        <span className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={() => onCollapseAll(false)}
+            className="text-[10px] text-sky-300 hover:text-sky-200"
+          >
+            Expand all
+          </button>
+          <button
+            type="button"
+            onClick={() => onCollapseAll(true)}
+            className="text-[10px] text-sky-300 hover:text-sky-200"
+          >
+            Collapse all
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-[10px] text-sky-300 hover:text-sky-200"
+          >
+            Clear
+          </button>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import type { CellValue, HeaderSource } from "../lib/types";
+import { MAX_HEADER_DEPTH } from "../lib/headers";
+import { isEmptyCell } from "../lib/values";
+
+type HeaderRowControlProps = {
+  source: HeaderSource;
+  // First data rows, previewed below the header candidates
+  rows: CellValue[][];
+  onChange: (headerRow: number, depth: number) => void;
+};
+
+// Data rows shown after the header so a lower header row can be picked
+const PREVIEW_DATA_ROWS = 4;
+
+function rowText(row: CellValue[]) {
+  return row
+    .filter((cell) => !isEmptyCell(cell))
+    .map(String)
+    .join(" · ");
+}
+
+export default function HeaderRowControl({
+  source,
+  rows,
+  onChange
+}: HeaderRowControlProps) {
+  const preview = [...source.rows, ...rows.slice(0, PREVIEW_DATA_ROWS)];
+  const isDetected =
+    source.headerRow === source.detectedRow &&
+    source.depth === source.detectedDepth;
+
+  return (
+    <section>
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-300 mb-2 flex items-center justify-between">
+        Header row
+        {!isDetected && (
+          <button
+            type="button"
+            onClick={() => onChange(source.detectedRow, source.detectedDepth)}
+            className="text-[10px] text-sky-300 hover:text-sky-200"
+          >
+            Auto (row {source.firstRow + source.detectedRow})
+          </button>
+        )}
+      </p>
+      <div className="flex items-center gap-2 text-[11px] text-slate-300 mb-1">
+        <span>Spans</span>
+        <select
+          value={source.depth}
+          onChange={(e) => onChange(source.headerRow, Number(e.target.value))}
+          title="Rows combined into 'Parent / Child' names"
+          className="rounded bg-slate-900 border border-slate-700/80 px-1 text-[10px] text-slate-200 focus:outline-none"
+        >
+          {Array.from({ length: MAX_HEADER_DEPTH }, (_, i) => (
+            <option key={i} value={i + 1}>
+              {i + 1} row{i ? "s" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div
+        className="max-h-32 overflow-auto space-y-0.5"
+        title="Click a row to use it as the header (resets this sheet's view and edits)"
+      >
+        {preview.map((row, i) => {
+          const inHeader =
+            i >= source.headerRow && i < source.headerRow + source.depth;
+          return (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onChange(i, source.depth)}
+              className={`flex w-full gap-2 rounded px-2 py-0.5 text-left text-[10px] ${
+                inHeader
+                  ? "bg-sky-500/20 text-sky-100"
+                  : "text-slate-400 hover:bg-slate-800/80"
+              }`}
+            >
+              <span className="w-6 shrink-0 text-right text-slate-500">
+                {source.firstRow + i}
+              </span>
+              <span className="truncate">
+                {rowText(row) || <span className="italic">blank</span>}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { ParsedSheet } from "../lib/types";
+import {
+  appendSheets,
+  JOIN_KINDS,
+  JoinKey,
+  JoinKind,
+  joinSheets,
+  matchReport
+} from "../lib/join";
+import { headersMatch } from "../lib/viewState";
+
+type JoinDialogProps = {
+  sheets: ParsedSheet[];
+  // Sheet preselected on the left (the active one)
+  initialLeft: number;
+  onCreate: (sheet: ParsedSheet) => void;
+  onCancel: () => void;
+};
+
+const selectClass =
+  "w-full rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-sky-400";
+
+// First pair of columns with the same name, else the first columns
+function guessKey(left: ParsedSheet, right: ParsedSheet): JoinKey {
+  const names = right.headers.map((h) => h.toLowerCase());
+  for (let c = 0; c < left.headers.length; c++) {
+    const match = names.indexOf(left.headers[c].toLowerCase());
+    if (match >= 0) return { left: c, right: match };
+  }
+  return { left: 0, right: 0 };
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n !== 1 ? "s" : ""}`;
+}
+
+export default function JoinDialog({
+  sheets,
+  initialLeft,
+  onCreate,
+  onCancel
+}: JoinDialogProps) {
+  const [kind, setKind] = useState<JoinKind>("left");
+  const [leftIndex, setLeftIndex] = useState(initialLeft);
+  const [rightIndex, setRightIndex] = useState(
+    initialLeft === 0 && sheets.length > 1 ? 1 : 0
+  );
+  const left = sheets[leftIndex];
+  const right = sheets[rightIndex];
+  const [keys, setKeys] = useState<JoinKey[]>(() => [guessKey(left, right)]);
+
+  function pickSheets(nextLeft: number, nextRight: number) {
+    setLeftIndex(nextLeft);
+    setRightIndex(nextRight);
+    // Column indexes don't carry over to other sheets
+    setKeys([guessKey(sheets[nextLeft], sheets[nextRight])]);
+  }
+
+  function updateKey(index: number, patch: Partial<JoinKey>) {
+    setKeys((prev) =>
+      prev.map((key, i) => (i === index ? { ...key, ...patch } : key))
+    );
+  }
+
+  const isUnion = kind === "union";
+  const canUnion = headersMatch(left, right);
+
+  const report = useMemo(
+    () => (isUnion ? null : matchReport(left, right, keys)),
+    [isUnion, left, right, keys]
+  );
+
+  // Names on both sides (other than the right-hand keys) get prefixed
+  const conflicts = useMemo(() => {
+    const rightKeys = new Set(keys.map((k) => k.right));
+    const rightNames = new Set(
+      right.headers
+        .filter((_, c) => !rightKeys.has(c))
+        .map((h) => h.toLowerCase())
+    );
+    return left.headers.filter((h) => rightNames.has(h.toLowerCase()));
+  }, [left, right, keys]);
+
+  function create() {
+    const sheet = isUnion
+      ? appendSheets(left, right)
+      : joinSheets(left, right, kind, keys);
+    if (sheet) onCreate(sheet);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col gap-3 overflow-auto rounded-2xl border border-slate-700/80 bg-slate-900 p-4 text-[11px]">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-sky-200">
+            Join or append sheets
+          </h2>
+          <p className="text-slate-400">
+            The result is added as a new sheet; the originals are left as they
+            are.
+          </p>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] uppercase tracking-wide text-slate-400">
+            Operation
+          </span>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as JoinKind)}
+            className={selectClass}
+          >
+            {JOIN_KINDS.map((k) => (
+              <option key={k.value} value={k.value}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              {isUnion ? "First sheet" : "Left sheet"}
+            </span>
+            <select
+              value={leftIndex}
+              onChange={(e) => pickSheets(Number(e.target.value), rightIndex)}
+              className={selectClass}
+            >
+              {sheets.map((sheet, i) => (
+                <option key={sheet.name} value={i}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] uppercase tracking-wide text-slate-400">
+              {isUnion ? "Second sheet" : "Right sheet"}
+            </span>
+            <select
+              value={rightIndex}
+              onChange={(e) => pickSheets(leftIndex, Number(e.target.value))}
+              className={selectClass}
+            >
+              {sheets.map((sheet, i) => (
+                <option key={sheet.name} value={i}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {isUnion ? (
+          canUnion ? (
+            <p className="text-slate-300">
+              {plural(left.rows.length + right.rows.length, "row")} will be
+              stacked, with a Source column naming each row&apos;s sheet.
+            </p>
+          ) : (
+            <p className="text-rose-300">
+              Appending needs both sheets to have the same column names (in any
+              order).
+            </p>
+          )
+        ) : (
+          <>
+            <div className="space-y-1">
+              <span className="text-[10px] uppercase tracking-wide text-slate-400">
+                Match rows where
+              </span>
+              {keys.map((key, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <select
+                    value={key.left}
+                    onChange={(e) =>
+                      updateKey(i, { left: Number(e.target.value) })
+                    }
+                    className={selectClass}
+                  >
+                    {left.headers.map((h, c) => (
+                      <option key={c} value={c}>
+                        {h || `Column ${c + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-slate-500">=</span>
+                  <select
+                    value={key.right}
+                    onChange={(e) =>
+                      updateKey(i, { right: Number(e.target.value) })
+                    }
+                    className={selectClass}
+                  >
+                    {right.headers.map((h, c) => (
+                      <option key={c} value={c}>
+                        {h || `Column ${c + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setKeys((prev) => prev.filter((_, j) => j !== i))
+                    }
+                    disabled={keys.length === 1}
+                    className="text-slate-500 hover:text-rose-300 disabled:opacity-30"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setKeys((prev) => [...prev, guessKey(left, right)])
+                }
+                className="text-[10px] text-sky-300 hover:text-sky-200"
+              >
+                + Add key column
+              </button>
+            </div>
+
+            {report && (
+              <div className="space-y-1 rounded-xl border border-slate-800/80 bg-slate-950/60 p-3 text-slate-300">
+                <p>
+                  <span className="text-emerald-300">
+                    {report.matchedLeft} of {left.rows.length}
+                  </span>{" "}
+                  {left.name} rows match.
+                </p>
+                {report.unmatchedLeft > 0 && (
+                  <p>
+                    <span className="text-amber-300">
+                      {plural(report.unmatchedLeft, "row")}
+                    </span>{" "}
+                    in {left.name} have no match
+                    {kind === "inner" ? " and will be left out" : ""}, e.g.{" "}
+                    <span className="text-slate-400">
+                      {report.unmatchedLeftKeys.join(", ")}
+                    </span>
+                  </p>
+                )}
+                {report.unmatchedRight > 0 && (
+                  <p>
+                    <span className="text-amber-300">
+                      {plural(report.unmatchedRight, "row")}
+                    </span>{" "}
+                    in {right.name} have no match
+                    {kind === "full" ? " and will be added" : ""}, e.g.{" "}
+                    <span className="text-slate-400">
+                      {report.unmatchedRightKeys.join(", ")}
+                    </span>
+                  </p>
+                )}
+                {conflicts.length > 0 && (
+                  <p className="text-slate-400">
+                    Columns on both sides get their sheet&apos;s name as a
+                    prefix: {conflicts.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-slate-700/80 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={create}
+            disabled={isUnion ? !canUnion : !keys.length}
+            className="rounded-xl border border-sky-400/60 bg-sky-500/20 px-3 py-1.5 text-xs text-sky-50 hover:bg-sky-500/30 disabled:opacity-40"
+          >
+            Create sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
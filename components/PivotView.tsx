@@ -0,0 +1,343 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { CellValue, ColumnType, ParsedSheet } from "../lib/types";
+import { Aggregation, AGGREGATIONS } from "../lib/aggregate";
+import {
+  buildPivot,
+  columnKeyLabel,
+  PivotConfig,
+  pivotCells,
+  pivotToSheet,
+  pivotTotals,
+  valueFieldLabel,
+  visiblePivotNodes
+} from "../lib/pivot";
+
+type PivotViewProps = {
+  sheetName: string;
+  headers: string[];
+  columnTypes: ColumnType[];
+  rows: CellValue[][];
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  onExport: (sheet: ParsedSheet) => void;
+};
+
+const selectClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-violet-400";
+
+function formatValue(value: number | null) {
+  if (value === null) return "—";
+  return Number.isInteger(value)
+    ? value.toLocaleString()
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+export default function PivotView({
+  sheetName,
+  headers,
+  columnTypes,
+  rows,
+  config,
+  onConfigChange,
+  onExport
+}: PivotViewProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const result = useMemo(
+    () => (config.values.length ? buildPivot(rows, config) : null),
+    [rows, config]
+  );
+
+  const visibleNodes = useMemo(
+    () => (result ? visiblePivotNodes(result.root, collapsed) : []),
+    [result, collapsed]
+  );
+
+  const hasColumnFields = config.columnFields.length > 0;
+  const columnName = (idx: number) => headers[idx] || `Column ${idx + 1}`;
+
+  function toggleCollapsed(id: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function fieldList(
+    label: string,
+    fields: number[],
+    onChange: (fields: number[]) => void
+  ) {
+    return (
+      <div className="flex flex-col gap-1 min-w-[10rem]">
+        <span className="text-[10px] uppercase tracking-wide text-slate-400">
+          {label}
+        </span>
+        <div className="flex flex-wrap gap-1">
+          {fields.map((field) => (
+            <span
+              key={field}
+              className="inline-flex items-center gap-1 rounded-full bg-violet-500/20 px-2 py-0.5 text-[11px] text-violet-100"
+            >
+              {columnName(field)}
+              <button
+                type="button"
+                onClick={() => onChange(fields.filter((f) => f !== field))}
+                className="text-violet-300 hover:text-rose-300"
+                aria-label={`Remove ${columnName(field)}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <select
+          value=""
+          onChange={(e) => onChange([...fields, Number(e.target.value)])}
+          className={selectClass}
+        >
+          <option value="" disabled>
+            + Add field
+          </option>
+          {headers.map((_, idx) =>
+            fields.includes(idx) ? null : (
+              <option key={idx} value={idx}>
+                {columnName(idx)}{" "}
+                {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
+              </option>
+            )
+          )}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col p-4 gap-4 min-h-0">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-violet-200">Pivot Table</h2>
+          <p className="text-[11px] text-slate-400 max-w-xl">
+            Summarise the filtered rows by row and column fields. Click a row
+            group to collapse its subtotal.
+          </p>
+        </div>
+        <button
+          type="button"
+          disabled={!result}
+          onClick={() =>
+            result &&
+            onExport(
+              pivotToSheet(`${sheetName} pivot`, result, config, headers)
+            )
+          }
+          className="rounded-xl border border-violet-400/60 bg-violet-500/20 px-3 py-1.5 text-xs text-violet-50 hover:bg-violet-500/30 disabled:opacity-40"
+        >
+          Export as new sheet
+        </button>
+      </div>
+
+      {/* Field pickers */}
+      <div className="flex flex-wrap gap-4 text-xs">
+        {fieldList("Rows", config.rowFields, (rowFields) => {
+          setCollapsed(new Set());
+          onConfigChange({ ...config, rowFields });
+        })}
+        {fieldList("Columns", config.columnFields, (columnFields) =>
+          onConfigChange({ ...config, columnFields })
+        )}
+        <div className="flex flex-col gap-1 min-w-[14rem]">
+          <span className="text-[10px] uppercase tracking-wide text-slate-400">
+            Values
+          </span>
+          {config.values.map((field, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <select
+                value={field.aggregation}
+                onChange={(e) =>
+                  onConfigChange({
+                    ...config,
+                    values: config.values.map((v, j) =>
+                      j === i
+                        ? { ...v, aggregation: e.target.value as Aggregation }
+                        : v
+                    )
+                  })
+                }
+                className={selectClass}
+              >
+                {AGGREGATIONS.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+              <span className="truncate text-[11px] text-slate-200">
+                of {columnName(field.column)}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  onConfigChange({
+                    ...config,
+                    values: config.values.filter((_, j) => j !== i)
+                  })
+                }
+                className="text-slate-500 hover:text-rose-300"
+                aria-label="Remove value field"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <select
+            value=""
+            onChange={(e) => {
+              const column = Number(e.target.value);
+              onConfigChange({
+                ...config,
+                values: [
+                  ...config.values,
+                  {
+                    column,
+                    aggregation:
+                      columnTypes[column] === "numeric" ? "sum" : "count"
+                  }
+                ]
+              });
+            }}
+            className={selectClass}
+          >
+            <option value="" disabled>
+              + Add value
+            </option>
+            {headers.map((_, idx) => (
+              <option key={idx} value={idx}>
+                {columnName(idx)}{" "}
+                {columnTypes[idx] ? `(${columnTypes[idx]})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Pivot grid */}
+      <div className="flex-1 min-h-0 overflow-auto rounded-2xl border border-violet-500/25 bg-slate-950/70">
+        {!result ? (
+          <div className="flex h-full flex-col items-center justify-center gap-2 p-6 text-center">
+            <div className="text-4xl">🧮</div>
+            <p className="text-xs text-slate-200">
+              Add at least one value field to build the pivot.
+            </p>
+            <p className="text-[11px] text-slate-400 max-w-sm">
+              Row and column fields split the values into groups; each group
+              shows the chosen aggregation with subtotals and a grand total.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full border-collapse text-xs">
+            <thead className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur-md">
+              <tr>
+                <th className="border-b border-slate-800/80 px-3 py-2 text-left text-[10px] font-semibold uppercase tracking-wide text-slate-200">
+                  {config.rowFields.map(columnName).join(" / ") || "—"}
+                </th>
+                {result.columnKeys.map((key) =>
+                  config.values.map((v, i) => (
+                    <th
+                      key={`${key}-${i}`}
+                      className="border-b border-slate-800/80 px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-200"
+                    >
+                      {hasColumnFields && (
+                        <div className="text-violet-300">
+                          {columnKeyLabel(key)}
+                        </div>
+                      )}
+                      {valueFieldLabel(v, headers)}
+                    </th>
+                  ))
+                )}
+                {hasColumnFields &&
+                  config.values.map((v, i) => (
+                    <th
+                      key={`total-${i}`}
+                      className="border-b border-slate-800/80 px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-200"
+                    >
+                      <div className="text-violet-300">Total</div>
+                      {valueFieldLabel(v, headers)}
+                    </th>
+                  ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleNodes.map((node) => {
+                const isGroup = node.children.length > 0;
+                const isCollapsed = collapsed.has(node.id);
+                return (
+                  <tr
+                    key={node.id}
+                    className={isGroup ? "bg-slate-900/60" : "bg-slate-900/10"}
+                  >
+                    <td
+                      className="border-b border-slate-800/60 px-3 py-1.5 text-[11px] text-slate-100"
+                      style={{ paddingLeft: 12 + (node.depth - 1) * 16 }}
+                    >
+                      {isGroup ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleCollapsed(node.id)}
+                          className="flex items-center gap-1 font-semibold"
+                        >
+                          <span className="text-[9px] text-slate-400">
+                            {isCollapsed ? "▶" : "▼"}
+                          </span>
+                          {node.label}
+                        </button>
+                      ) : (
+                        node.label
+                      )}
+                    </td>
+                    {[
+                      ...pivotCells(node, result, config),
+                      ...(hasColumnFields ? pivotTotals(node, config) : [])
+                    ].map((value, i) => (
+                      <td
+                        key={i}
+                        className={`border-b border-slate-800/60 px-3 py-1.5 text-right text-[11px] ${
+                          isGroup
+                            ? "font-semibold text-violet-100"
+                            : "text-slate-100"
+                        }`}
+                      >
+                        {formatValue(value)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+              <tr className="sticky bottom-0 bg-slate-900/95 font-semibold">
+                <td className="border-t border-violet-500/40 px-3 py-2 text-[11px] text-violet-200">
+                  Grand Total
+                </td>
+                {[
+                  ...pivotCells(result.root, result, config),
+                  ...(hasColumnFields ? pivotTotals(result.root, config) : [])
+                ].map((value, i) => (
+                  <td
+                    key={i}
+                    className="border-t border-violet-500/40 px-3 py-2 text-right text-[11px] text-violet-100"
+                  >
+                    {formatValue(value)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { CellValue, ColumnType } from "../lib/types";
+import type { ColumnDetection } from "../lib/columnTypes";
+import { ColumnProfile, profileColumn } from "../lib/profile";
+
+type ProfileViewProps = {
+  headers: string[];
+  rows: CellValue[][];
+  detections: ColumnDetection[];
+};
+
+const TYPE_BADGE: Record<ColumnType, string> = {
+  numeric: "bg-sky-500/20 text-sky-200",
+  date: "bg-emerald-500/20 text-emerald-200",
+  categorical: "bg-violet-500/20 text-violet-200",
+  unknown: "bg-slate-700/60 text-slate-300"
+};
+
+function fmt(n: number) {
+  return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function pct(part: number, whole: number) {
+  if (!whole) return "0%";
+  return `${((part / whole) * 100).toFixed(part === whole || !part ? 0 : 1)}%`;
+}
+
+function formatDate(t: number) {
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+function Sparkline({ bins }: { bins: number[] }) {
+  const max = Math.max(...bins, 1);
+  const width = 160;
+  const height = 32;
+  const barWidth = width / bins.length;
+  return (
+    <svg width={width} height={height} className="block">
+      {bins.map((count, i) => {
+        const h = (count / max) * height;
+        return (
+          <rect
+            key={i}
+            x={i * barWidth + 0.5}
+            y={height - h}
+            width={Math.max(1, barWidth - 1)}
+            height={h}
+            className="fill-sky-400/70"
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-slate-100">{value}</span>
+    </div>
+  );
+}
+
+function ProfileCard({
+  header,
+  profile
+}: {
+  header: string;
+  profile: ColumnProfile;
+}) {
+  const present = profile.rowCount - profile.nullCount - profile.blankCount;
+  const topMax = profile.topValues[0]?.count ?? 1;
+
+  return (
+    <div className="rounded-2xl border border-slate-800/80 bg-slate-900/60 p-3 text-[11px] space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate text-xs font-semibold text-slate-100">
+          {header}
+        </span>
+        <span
+          className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] uppercase tracking-wide ${
+            TYPE_BADGE[profile.type]
+          }`}
+          title="Share of non-empty values that match the detected type"
+        >
+          {profile.type} · {Math.round(profile.confidence * 100)}%
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+        <Stat
+          label="Filled"
+          value={`${present} (${pct(present, profile.rowCount)})`}
+        />
+        <Stat label="Distinct" value={profile.uniqueCount} />
+        <Stat
+          label="Null"
+          value={
+            <span className={profile.nullCount ? "text-amber-300" : undefined}>
+              {profile.nullCount}
+            </span>
+          }
+        />
+        <Stat
+          label="Blank"
+          value={
+            <span className={profile.blankCount ? "text-amber-300" : undefined}>
+              {profile.blankCount}
+            </span>
+          }
+        />
+      </div>
+
+      {profile.numeric && (
+        <div className="space-y-1 border-t border-slate-800/80 pt-2">
+          <Sparkline bins={profile.numeric.histogram} />
+          <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+            <Stat label="Min" value={fmt(profile.numeric.min)} />
+            <Stat label="Max" value={fmt(profile.numeric.max)} />
+            <Stat label="Mean" value={fmt(profile.numeric.mean)} />
+            <Stat label="Median" value={fmt(profile.numeric.median)} />
+            <Stat label="Std dev" value={fmt(profile.numeric.stddev)} />
+            {profile.numeric.percentiles.map(({ p, value }) => (
+              <Stat key={p} label={`P${p}`} value={fmt(value)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {profile.date && (
+        <div className="space-y-0.5 border-t border-slate-800/80 pt-2">
+          <Stat label="Earliest" value={formatDate(profile.date.min)} />
+          <Stat label="Latest" value={formatDate(profile.date.max)} />
+          <Stat label="Span" value={`${profile.date.spanDays} days`} />
+        </div>
+      )}
+
+      {profile.topValues.length > 0 && (
+        <div className="space-y-0.5 border-t border-slate-800/80 pt-2">
+          <p className="text-[10px] uppercase tracking-wide text-slate-400">
+            Most frequent
+          </p>
+          {profile.topValues.map(({ value, count }) => (
+            <div key={value} className="relative flex justify-between gap-2">
+              <div
+                className="absolute inset-y-0 left-0 rounded bg-sky-500/15"
+                style={{ width: `${(count / topMax) * 100}%` }}
+              />
+              <span className="relative truncate text-slate-200">{value}</span>
+              <span className="relative text-slate-400">{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ProfileView({
+  headers,
+  rows,
+  detections
+}: ProfileViewProps) {
+  const profiles = useMemo(
+    () =>
+      detections.map((detection, colIdx) =>
+        profileColumn(rows, colIdx, detection)
+      ),
+    [rows, detections]
+  );
+
+  return (
+    <div className="flex-1 flex flex-col p-4 gap-4 min-h-0">
+      <div className="space-y-1">
+        <h2 className="text-sm font-semibold text-amber-200">Column Profile</h2>
+        <p className="text-[11px] text-slate-400 max-w-xl">
+          Data-quality summary of every column across all {rows.length} rows:
+          detected type, missing values, distinct counts, distributions and the
+          most frequent values.
+        </p>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+          {profiles.map((profile, idx) => (
+            <ProfileCard
+              key={idx}
+              header={headers[idx] || `Column ${idx + 1}`}
+              profile={profile}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import {
+  formatBytes,
+  MAX_RECENT_FILES,
+  MAX_TOTAL_BYTES,
+  StoredSession
+} from "../lib/storage";
+
+type RecentFilesProps = {
+  sessions: StoredSession[];
+  activeId: string | null;
+  note: string | null;
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+function formatSavedAt(savedAt: number) {
+  const date = new Date(savedAt);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString();
+}
+
+export default function RecentFiles({
+  sessions,
+  activeId,
+  note,
+  onOpen,
+  onRemove,
+  onClear
+}: RecentFilesProps) {
+  const used = sessions.reduce((sum, s) => sum + s.size, 0);
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-300">
+          Recent files
+        </h2>
+        {sessions.length > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            title="Remove all saved workbooks from this browser"
+            className="text-[10px] text-rose-300 hover:text-rose-200"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="space-y-1">
+        {sessions.length === 0 && (
+          <p className="text-xs text-slate-500">
+            Uploaded workbooks are kept in this browser only.
+          </p>
+        )}
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className={`group flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs ${
+              session.id === activeId
+                ? "bg-sky-500/10 text-sky-100 border border-sky-500/40"
+                : "bg-slate-900/60 text-slate-200 hover:bg-slate-800/80"
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(session.id)}
+              className="min-w-0 flex-1 text-left"
+            >
+              <div className="truncate">{session.fileName}</div>
+              <div className="text-[10px] text-slate-500">
+                {session.sheetCount} sheet{session.sheetCount !== 1 ? "s" : ""}{" "}
+                · {formatBytes(session.size)} · {formatSavedAt(session.savedAt)}
+              </div>
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(session.id)}
+              className="text-slate-500 opacity-0 hover:text-rose-300 group-hover:opacity-100"
+              aria-label={`Forget ${session.fileName}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      {sessions.length > 0 && (
+        <p className="mt-1 text-[10px] text-slate-500">
+          {formatBytes(used)} of {formatBytes(MAX_TOTAL_BYTES)} used · last{" "}
+          {MAX_RECENT_FILES} files kept
+        </p>
+      )}
+      {note && <p className="mt-1 text-[10px] text-amber-300">{note}</p>}
+    </section>
+  );
+}
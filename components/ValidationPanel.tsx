@@ -0,0 +1,317 @@
+"use client";
+
+import React, { useState } from "react";
+import type { ColumnType } from "../lib/types";
+import {
+  createValidationRule,
+  describeValidationRule,
+  parseRuleSet,
+  ruleSetToJson,
+  ValidationKind,
+  ValidationResult,
+  ValidationRule,
+  validationKindsForType,
+  validationRuleError
+} from "../lib/validation";
+import { downloadFile, exportFileName } from "../lib/export";
+
+type ValidationPanelProps = {
+  headers: string[];
+  columnTypes: ColumnType[];
+  fileName: string | null;
+  sheetName: string;
+  rules: ValidationRule[];
+  onChange: (rules: ValidationRule[]) => void;
+  result: ValidationResult;
+  // Index into the sheet's rows
+  onJumpToRow: (row: number) => void;
+};
+
+const inputClass =
+  "rounded-lg bg-slate-900/80 border border-slate-700/80 px-2 py-1 text-[11px] text-slate-100 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-rose-400";
+
+// Issues listed at once; the grid badges still show every failing cell
+const MAX_LISTED_ISSUES = 200;
+
+const splitValues = (text: string) =>
+  text
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export default function ValidationPanel({
+  headers,
+  columnTypes,
+  fileName,
+  sheetName,
+  rules,
+  onChange,
+  result,
+  onJumpToRow
+}: ValidationPanelProps) {
+  const names = headers.map((h, i) => h || `Column ${i + 1}`);
+  const [draft, setDraft] = useState<ValidationRule>(() =>
+    createValidationRule(names[0] ?? "", columnTypes[0])
+  );
+  const [valuesText, setValuesText] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // The sheet may have changed since the draft began
+  const columnIndex = Math.max(0, names.indexOf(draft.column));
+  const type = columnTypes[columnIndex];
+  const kinds = validationKindsForType(type);
+  const kind = kinds.some((k) => k.value === draft.kind)
+    ? draft.kind
+    : kinds[0].value;
+  const rule: ValidationRule = {
+    ...draft,
+    column: names[columnIndex] ?? "",
+    kind,
+    values: splitValues(valuesText)
+  };
+  const problem = validationRuleError(rule, type);
+  const typeOf = (column: number | null) =>
+    column === null ? undefined : columnTypes[column];
+
+  function update(patch: Partial<ValidationRule>) {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  }
+
+  function add() {
+    if (problem) return;
+    onChange([...rules, rule]);
+    setDraft(createValidationRule(rule.column, type));
+    setValuesText("");
+  }
+
+  function saveRuleSet() {
+    downloadFile(
+      ruleSetToJson(rules),
+      `${exportFileName(fileName, sheetName)}.rules.json`,
+      "application/json"
+    );
+  }
+
+  async function loadRuleSet(file: File) {
+    const loaded = parseRuleSet(await file.text());
+    if (!loaded) {
+      setNotice(`${file.name} isn't a validation rule set.`);
+      return;
+    }
+    onChange(loaded);
+    const missing = loaded.filter(
+      (r) => !names.some((n) => n.toLowerCase() === r.column.toLowerCase())
+    ).length;
+    setNotice(
+      missing
+        ? `Loaded ${loaded.length} rules; ${missing} refer to columns this sheet lacks.`
+        : `Loaded ${loaded.length} rules from ${file.name}.`
+    );
+  }
+
+  return (
+    <div className="border-b border-slate-800/80 bg-slate-900/60 px-4 py-2 text-[11px] space-y-2">
+      {rules.length > 0 && (
+        <ul className="space-y-1">
+          {result.outcomes.map(({ rule: r, column, checked, failed }) => {
+            const error =
+              column === null
+                ? "no such column"
+                : validationRuleError(r, typeOf(column));
+            return (
+              <li key={r.id} className="flex items-center gap-2">
+                <span
+                  className={`w-20 shrink-0 text-right ${
+                    error
+                      ? "text-slate-500"
+                      : failed
+                      ? "text-rose-300"
+                      : "text-emerald-300"
+                  }`}
+                >
+                  {error
+                    ? "—"
+                    : failed
+                    ? `${failed} failed`
+                    : `${checked} passed`}
+                </span>
+                <span className={error ? "text-slate-500" : "text-slate-200"}>
+                  {describeValidationRule(r, typeOf(column))}
+                </span>
+                {error && (
+                  <span className="text-amber-300">(paused: {error})</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(rules.filter((x) => x.id !== r.id))}
+                  className="ml-auto text-[10px] text-rose-300 hover:text-rose-200"
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={rule.column}
+          onChange={(e) => update({ column: e.target.value })}
+          className={inputClass}
+        >
+          {names.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => update({ kind: e.target.value as ValidationKind })}
+          className={inputClass}
+        >
+          {kinds.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        {(kind === "pattern" || kind === "min" || kind === "max") && (
+          <input
+            value={rule.value}
+            onChange={(e) => update({ value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            placeholder={
+              kind === "pattern"
+                ? "e.g. ^[^@\\s]+@[^@\\s]+$"
+                : type === "date"
+                ? "YYYY-MM-DD"
+                : "Number"
+            }
+            spellCheck={false}
+            className={`${inputClass} ${
+              kind === "pattern" ? "w-48 font-mono" : "w-28"
+            }`}
+          />
+        )}
+        {kind === "oneOf" && (
+          <input
+            value={valuesText}
+            onChange={(e) => setValuesText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            placeholder="Values, comma separated"
+            className={`${inputClass} w-56`}
+          />
+        )}
+        <button
+          type="button"
+          onClick={add}
+          disabled={!!problem}
+          title={problem ?? ""}
+          className="rounded-lg border border-rose-400/60 bg-rose-500/20 px-2 py-1 text-rose-100 hover:bg-rose-500/30 disabled:opacity-40"
+        >
+          Add rule
+        </button>
+
+        <span className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={saveRuleSet}
+            disabled={!rules.length}
+            className="text-[10px] text-sky-300 hover:text-sky-200 disabled:opacity-40"
+          >
+            Save rule set
+          </button>
+          <label className="cursor-pointer text-[10px] text-sky-300 hover:text-sky-200">
+            Load rule set…
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) {
+                  loadRuleSet(file).catch((err) => {
+                    console.error(err);
+                    setNotice("Couldn't read the rule set file.");
+                  });
+                }
+              }}
+            />
+          </label>
+          {rules.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="text-[10px] text-sky-300 hover:text-sky-200"
+            >
+              Clear all
+            </button>
+          )}
+        </span>
+      </div>
+
+      {notice && <p className="text-slate-300">{notice}</p>}
+
+      {rules.length > 0 && (
+        <p className="text-slate-300">
+          <span className="text-emerald-300">
+            {result.rowCount - result.failingRows} rows pass
+          </span>
+          ,{" "}
+          <span className={result.failingRows ? "text-rose-300" : ""}>
+            {result.failingRows} fail
+          </span>{" "}
+          ({result.issues.length} issues)
+        </p>
+      )}
+
+      {result.issues.length > 0 && (
+        <div className="max-h-40 overflow-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wide text-slate-400">
+                <th className="py-1 pr-3 font-medium">Row</th>
+                <th className="py-1 pr-3 font-medium">Column</th>
+                <th className="py-1 pr-3 font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <tr key={i} className="border-t border-slate-800/60">
+                  {/* 1-based like the spreadsheet, counting from the first data row */}
+                  <td className="py-1 pr-3">
+                    <button
+                      type="button"
+                      onClick={() => onJumpToRow(issue.row)}
+                      title="Show this row in the table"
+                      className="text-sky-300 hover:text-sky-200 underline decoration-sky-500/50"
+                    >
+                      Row {issue.row + 1}
+                    </button>
+                  </td>
+                  <td className="py-1 pr-3 text-slate-200">
+                    {names[issue.column]}
+                  </td>
+                  <td className="py-1 pr-3 text-rose-200">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.issues.length > MAX_LISTED_ISSUES && (
+            <p className="pt-1 text-slate-500">
+              Showing the first {MAX_LISTED_ISSUES} of {result.issues.length}{" "}
+              issues.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
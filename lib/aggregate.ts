@@ -0,0 +1,85 @@
+import type { CellValue } from "./types";
+import { isEmptyCell, toNumber } from "./values";
+
+export type Aggregation = "sum" | "count" | "avg" | "min" | "max" | "distinct";
+
+export const AGGREGATIONS: { value: Aggregation; label: string }[] = [
+  { value: "sum", label: "Sum" },
+  { value: "count", label: "Count" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+  { value: "distinct", label: "Distinct count" }
+];
+
+// Running totals for one group of values; finalized per aggregation
+export type Accumulator = {
+  count: number;
+  numericCount: number;
+  sum: number;
+  min: number;
+  max: number;
+  distinct: Set<string>;
+};
+
+export function createAccumulator(): Accumulator {
+  return {
+    count: 0,
+    numericCount: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity,
+    distinct: new Set()
+  };
+}
+
+export function accumulate(acc: Accumulator, value: CellValue | undefined) {
+  if (isEmptyCell(value)) return;
+  acc.count++;
+  acc.distinct.add(String(value));
+  const n = toNumber(value);
+  if (Number.isNaN(n)) return;
+  acc.numericCount++;
+  acc.sum += n;
+  if (n < acc.min) acc.min = n;
+  if (n > acc.max) acc.max = n;
+}
+
+/** Folds `source` into `target` (used for "Other" buckets). */
+export function mergeAccumulator(target: Accumulator, source: Accumulator) {
+  target.count += source.count;
+  target.numericCount += source.numericCount;
+  target.sum += source.sum;
+  target.min = Math.min(target.min, source.min);
+  target.max = Math.max(target.max, source.max);
+  source.distinct.forEach((v) => target.distinct.add(v));
+}
+
+export function finalize(
+  acc: Accumulator | undefined,
+  aggregation: Aggregation
+): number | null {
+  if (!acc) return null;
+  switch (aggregation) {
+    case "count":
+      return acc.count;
+    case "distinct":
+      return acc.distinct.size;
+    case "sum":
+      return acc.numericCount ? acc.sum : null;
+    case "avg":
+      return acc.numericCount ? acc.sum / acc.numericCount : null;
+    case "min":
+      return acc.numericCount ? acc.min : null;
+    case "max":
+      return acc.numericCount ? acc.max : null;
+  }
+}
+
+/** Linear-interpolated quantile of an ascending array. */
+export function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
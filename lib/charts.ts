@@ -0,0 +1,522 @@
+import type { CellValue, ColumnType } from "./types";
+import { isEmptyCell, toNumber, toTimestamp } from "./values";
+import {
+  Accumulator,
+  accumulate,
+  Aggregation,
+  createAccumulator,
+  finalize,
+  mergeAccumulator,
+  quantile
+} from "./aggregate";
+import {
+  linearTrend,
+  movingAverage,
+  nextPeriod,
+  periodChange,
+  periodLabel,
+  periodStart,
+  TimeInterval
+} from "./timeSeries";
+
+export type ChartType =
+  | "bar"
+  | "line"
+  | "area"
+  | "stackedBar"
+  | "groupedBar"
+  | "pie"
+  | "scatter"
+  | "histogram"
+  | "box"
+  | "timeSeries";
+
+export type ChartAggregation = Exclude<Aggregation, "distinct">;
+
+export type ChartConfig = {
+  type: ChartType;
+  // X axis / category column (scatter: numeric X)
+  category: number | null;
+  // Measured column (scatter: numeric Y)
+  value: number | null;
+  // Optional split column for stacked/grouped bars, line and area
+  series: number | null;
+  aggregation: ChartAggregation;
+  topN: number;
+  // Time series: period length, trailing average window (0 = off) and
+  // whether to draw a trend line
+  interval: TimeInterval;
+  movingAverage: number;
+  trend: boolean;
+};
+
+// Which inputs each chart type uses
+export const CHART_TYPES: {
+  value: ChartType;
+  label: string;
+  category: "category" | "numeric" | "date" | "optional" | "none";
+  series: boolean;
+}[] = [
+  { value: "bar", label: "Bar", category: "category", series: false },
+  {
+    value: "groupedBar",
+    label: "Grouped bar",
+    category: "category",
+    series: true
+  },
+  {
+    value: "stackedBar",
+    label: "Stacked bar",
+    category: "category",
+    series: true
+  },
+  { value: "line", label: "Line", category: "category", series: true },
+  { value: "area", label: "Area", category: "category", series: true },
+  { value: "timeSeries", label: "Time series", category: "date", series: true },
+  { value: "pie", label: "Pie / donut", category: "category", series: false },
+  { value: "scatter", label: "Scatter", category: "numeric", series: false },
+  { value: "histogram", label: "Histogram", category: "none", series: false },
+  { value: "box", label: "Box plot", category: "optional", series: false }
+];
+
+export const CHART_AGGREGATIONS: { value: ChartAggregation; label: string }[] =
+  [
+    { value: "sum", label: "Sum" },
+    { value: "avg", label: "Average" },
+    { value: "count", label: "Count" },
+    { value: "min", label: "Min" },
+    { value: "max", label: "Max" }
+  ];
+
+export const OTHER_LABEL = "Other";
+const MAX_SERIES = 8;
+
+export const emptyChartConfig: ChartConfig = {
+  type: "bar",
+  category: null,
+  value: null,
+  series: null,
+  aggregation: "sum",
+  topN: 25,
+  interval: "month",
+  movingAverage: 0,
+  trend: false
+};
+
+function firstOfType(columnTypes: ColumnType[], type: ColumnType, skip = -1) {
+  const idx = columnTypes.findIndex((t, i) => t === type && i !== skip);
+  return idx >= 0 ? idx : null;
+}
+
+/**
+ * Default chart for a sheet: summed numeric by the first categorical column,
+ * or a time series when the sheet only has a date column to group by.
+ */
+export function defaultChartConfig(columnTypes: ColumnType[]): ChartConfig {
+  const categorical = firstOfType(columnTypes, "categorical");
+  const date = firstOfType(columnTypes, "date");
+  const numeric = firstOfType(columnTypes, "numeric");
+
+  return {
+    ...emptyChartConfig,
+    type: categorical === null && date !== null ? "timeSeries" : "bar",
+    category: categorical ?? date,
+    value: numeric
+  };
+}
+
+/**
+ * Switches chart type, re-picking axes the new type can't use from the
+ * column types (e.g. scatter needs two numeric columns).
+ */
+export function withChartType(
+  config: ChartConfig,
+  type: ChartType,
+  columnTypes: ColumnType[]
+): ChartConfig {
+  const spec = CHART_TYPES.find((t) => t.value === type)!;
+  const isNumeric = (idx: number | null) =>
+    idx !== null && columnTypes[idx] === "numeric";
+
+  let { category, value, series } = config;
+  if (!isNumeric(value)) value = firstOfType(columnTypes, "numeric");
+
+  if (spec.category === "numeric" && !isNumeric(category)) {
+    category = firstOfType(columnTypes, "numeric", value ?? -1);
+  } else if (
+    spec.category === "date" &&
+    (category === null || columnTypes[category] !== "date")
+  ) {
+    category = firstOfType(columnTypes, "date");
+  } else if (
+    (spec.category === "category" || spec.category === "optional") &&
+    (category === null || columnTypes[category] === "numeric")
+  ) {
+    category =
+      firstOfType(columnTypes, "categorical") ??
+      firstOfType(columnTypes, "date") ??
+      (spec.category === "optional" ? null : category);
+  }
+  if (!spec.series) series = null;
+
+  return { ...config, type, category, value, series };
+}
+
+/** Picking a date column for X turns a plain bar chart into a time series. */
+export function withCategory(
+  config: ChartConfig,
+  category: number | null,
+  columnTypes: ColumnType[]
+): ChartConfig {
+  const next = { ...config, category };
+  if (
+    category !== null &&
+    columnTypes[category] === "date" &&
+    config.type === "bar"
+  ) {
+    next.type = "timeSeries";
+  }
+  return next;
+}
+
+export type CategoryChartData = {
+  data: Record<string, string | number | null>[];
+  seriesKeys: string[];
+  // Categories folded into the "Other" bucket
+  otherCount: number;
+};
+
+function label(value: CellValue | undefined) {
+  return isEmptyCell(value) ? "(blank)" : String(value);
+}
+
+/**
+ * Aggregates `value` by category (and optionally by series). Categories are
+ * ranked by their overall aggregate and capped at `topN`, with the rest
+ * merged into an "Other" bucket. Date categories keep every point and are
+ * ordered chronologically instead.
+ */
+export function buildCategoryData(
+  rows: CellValue[][],
+  config: ChartConfig,
+  columnTypes: ColumnType[]
+): CategoryChartData {
+  const { category, value, series, aggregation } = config;
+  if (category === null || value === null) {
+    return { data: [], seriesKeys: [], otherCount: 0 };
+  }
+
+  const totals = new Map<string, Accumulator>();
+  const bySeries = new Map<string, Map<string, Accumulator>>();
+  const seriesTotals = new Map<string, Accumulator>();
+
+  for (const row of rows) {
+    const cat = row[category];
+    if (isEmptyCell(cat)) continue;
+    const key = String(cat);
+    const val = row[value];
+
+    let total = totals.get(key);
+    if (!total) {
+      total = createAccumulator();
+      totals.set(key, total);
+    }
+    accumulate(total, val);
+
+    if (series !== null) {
+      const s = label(row[series]);
+      let perCategory = bySeries.get(s);
+      if (!perCategory) {
+        perCategory = new Map();
+        bySeries.set(s, perCategory);
+        seriesTotals.set(s, createAccumulator());
+      }
+      let acc = perCategory.get(key);
+      if (!acc) {
+        acc = createAccumulator();
+        perCategory.set(key, acc);
+      }
+      accumulate(acc, val);
+      accumulate(seriesTotals.get(s)!, val);
+    }
+  }
+
+  const isDate = columnTypes[category] === "date";
+  const score = (acc: Accumulator) => finalize(acc, aggregation) ?? -Infinity;
+
+  let categories = Array.from(totals.keys());
+  let otherKeys: string[] = [];
+  if (isDate) {
+    categories.sort((a, b) => toTimestamp(a) - toTimestamp(b));
+  } else {
+    categories.sort((a, b) => score(totals.get(b)!) - score(totals.get(a)!));
+    otherKeys = categories.slice(config.topN);
+    categories = categories.slice(0, config.topN);
+  }
+
+  // Series beyond MAX_SERIES are merged the same way
+  let seriesKeys = ["value"];
+  let otherSeries: string[] = [];
+  if (series !== null) {
+    const ranked = Array.from(seriesTotals.keys()).sort(
+      (a, b) => score(seriesTotals.get(b)!) - score(seriesTotals.get(a)!)
+    );
+    seriesKeys = ranked.slice(0, MAX_SERIES);
+    otherSeries = ranked.slice(MAX_SERIES);
+    if (otherSeries.length) seriesKeys.push(OTHER_LABEL);
+  }
+
+  const merged = (keys: string[], source: Map<string, Accumulator>) => {
+    const acc = createAccumulator();
+    keys.forEach((k) => {
+      const a = source.get(k);
+      if (a) mergeAccumulator(acc, a);
+    });
+    return acc;
+  };
+
+  const point = (cat: string, catKeys: string[]) => {
+    const entry: Record<string, string | number | null> = { category: cat };
+    if (series === null) {
+      entry.value = finalize(merged(catKeys, totals), aggregation);
+      return entry;
+    }
+    for (const s of seriesKeys) {
+      const sources = s === OTHER_LABEL ? otherSeries : [s];
+      const acc = createAccumulator();
+      for (const src of sources) {
+        const perCategory = bySeries.get(src);
+        if (perCategory) mergeAccumulator(acc, merged(catKeys, perCategory));
+      }
+      entry[s] = finalize(acc, aggregation);
+    }
+    return entry;
+  };
+
+  const data = categories.map((cat) => point(cat, [cat]));
+  if (otherKeys.length) data.push(point(OTHER_LABEL, otherKeys));
+
+  return { data, seriesKeys, otherCount: otherKeys.length };
+}
+
+// Periods drawn at most; finer intervals over long spans are refused
+export const MAX_PERIODS = 2000;
+
+export type TimeSeriesData = {
+  // One point per period, gaps included: `category` is the period label,
+  // then per series key its value and "ma:", "trend:" and "change:" entries
+  data: Record<string, string | number | null>[];
+  seriesKeys: string[];
+  // Rows left out because their date couldn't be read
+  undated: number;
+  // More than MAX_PERIODS periods; data is left empty
+  tooManyPeriods: boolean;
+};
+
+/**
+ * Buckets rows by the period their date falls in and aggregates `value`
+ * per period (and per series, ranked and capped like category charts).
+ * Periods without rows count as 0 for sums and counts and as gaps
+ * otherwise.
+ */
+export function buildTimeSeriesData(
+  rows: CellValue[][],
+  config: ChartConfig,
+  columnTypes: ColumnType[]
+): TimeSeriesData {
+  const { category, value, series, aggregation, interval } = config;
+  const empty = { data: [], seriesKeys: [], undated: 0, tooManyPeriods: false };
+  if (category === null || value === null) return empty;
+  if (columnTypes[category] !== "date") return empty;
+
+  // Accumulators per series label, then per period start
+  const buckets = new Map<string, Map<number, Accumulator>>();
+  const seriesTotals = new Map<string, Accumulator>();
+  let first = Infinity;
+  let last = -Infinity;
+  let undated = 0;
+
+  for (const row of rows) {
+    const t = toTimestamp(row[category]);
+    if (Number.isNaN(t)) {
+      if (!isEmptyCell(row[category])) undated++;
+      continue;
+    }
+    const start = periodStart(t, interval);
+    first = Math.min(first, start);
+    last = Math.max(last, start);
+    const key = series === null ? "value" : label(row[series]);
+    let periods = buckets.get(key);
+    if (!periods) {
+      periods = new Map();
+      buckets.set(key, periods);
+      seriesTotals.set(key, createAccumulator());
+    }
+    let acc = periods.get(start);
+    if (!acc) {
+      acc = createAccumulator();
+      periods.set(start, acc);
+    }
+    accumulate(acc, row[value]);
+    accumulate(seriesTotals.get(key)!, row[value]);
+  }
+  if (first > last) return { ...empty, undated };
+
+  const starts: number[] = [];
+  for (let t = first; t <= last; t = nextPeriod(t, interval)) {
+    starts.push(t);
+    if (starts.length > MAX_PERIODS) {
+      return { ...empty, undated, tooManyPeriods: true };
+    }
+  }
+
+  // Series beyond MAX_SERIES are merged into "Other"
+  const score = (acc: Accumulator) => finalize(acc, aggregation) ?? -Infinity;
+  const ranked = Array.from(seriesTotals.keys()).sort(
+    (a, b) => score(seriesTotals.get(b)!) - score(seriesTotals.get(a)!)
+  );
+  const seriesKeys = ranked.slice(0, MAX_SERIES);
+  const otherSeries = ranked.slice(MAX_SERIES);
+  if (otherSeries.length) seriesKeys.push(OTHER_LABEL);
+
+  const gap = aggregation === "sum" || aggregation === "count" ? 0 : null;
+  const data: Record<string, string | number | null>[] = starts.map((t) => ({
+    category: periodLabel(t, interval)
+  }));
+  for (const key of seriesKeys) {
+    const sources = key === OTHER_LABEL ? otherSeries : [key];
+    const values = starts.map((t) => {
+      const acc = createAccumulator();
+      let found = false;
+      for (const source of sources) {
+        const bucket = buckets.get(source)?.get(t);
+        if (bucket) {
+          mergeAccumulator(acc, bucket);
+          found = true;
+        }
+      }
+      return found ? finalize(acc, aggregation) : gap;
+    });
+    const averages = config.movingAverage
+      ? movingAverage(values, config.movingAverage)
+      : null;
+    const trend = config.trend ? linearTrend(values) : null;
+    const changes = periodChange(values);
+    data.forEach((point, i) => {
+      point[key] = values[i];
+      point[`change:${key}`] = changes[i];
+      if (averages) point[`ma:${key}`] = averages[i];
+      if (trend) point[`trend:${key}`] = trend[i];
+    });
+  }
+
+  return { data, seriesKeys, undated, tooManyPeriods: false };
+}
+
+/** Numeric (x, y) pairs, evenly sampled down to `limit` points. */
+export function buildScatterData(
+  rows: CellValue[][],
+  xColumn: number,
+  yColumn: number,
+  limit = 2000
+) {
+  const points: { x: number; y: number }[] = [];
+  for (const row of rows) {
+    const x = toNumber(row[xColumn]);
+    const y = toNumber(row[yColumn]);
+    if (!Number.isNaN(x) && !Number.isNaN(y)) points.push({ x, y });
+  }
+  if (points.length <= limit) return points;
+  const step = points.length / limit;
+  return Array.from({ length: limit }, (_, i) => points[Math.floor(i * step)]);
+}
+
+function numericValues(rows: CellValue[][], column: number) {
+  const values: number[] = [];
+  for (const row of rows) {
+    const n = toNumber(row[column]);
+    if (!Number.isNaN(n)) values.push(n);
+  }
+  return values;
+}
+
+/** Equal-width bins (Sturges' rule unless `binCount` is given). */
+export function buildHistogram(
+  rows: CellValue[][],
+  column: number,
+  binCount?: number
+) {
+  const values = numericValues(rows, column);
+  if (!values.length) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const bins = binCount ?? Math.ceil(Math.log2(values.length) + 1);
+  const width = (max - min) / bins || 1;
+  const counts = new Array(bins).fill(0);
+  for (const v of values) {
+    counts[Math.min(bins - 1, Math.floor((v - min) / width))]++;
+  }
+
+  const fmt = (n: number) =>
+    n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return counts.map((count, i) => ({
+    category: `${fmt(min + i * width)} – ${fmt(min + (i + 1) * width)}`,
+    value: count
+  }));
+}
+
+export type BoxStats = {
+  category: string;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+};
+
+function boxStats(category: string, values: number[]): BoxStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    category,
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+    count: sorted.length
+  };
+}
+
+/** Five-number summaries of `value`, per category (top N by count). */
+export function buildBoxPlot(
+  rows: CellValue[][],
+  valueColumn: number,
+  categoryColumn: number | null,
+  topN: number
+): BoxStats[] {
+  if (categoryColumn === null) {
+    const values = numericValues(rows, valueColumn);
+    return values.length ? [boxStats("All rows", values)] : [];
+  }
+
+  const groups = new Map<string, number[]>();
+  for (const row of rows) {
+    const n = toNumber(row[valueColumn]);
+    if (Number.isNaN(n)) continue;
+    const key = label(row[categoryColumn]);
+    const list = groups.get(key);
+    if (list) list.push(n);
+    else groups.set(key, [n]);
+  }
+
+  return Array.from(groups.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, topN)
+    .map(([category, values]) => boxStats(category, values));
+}
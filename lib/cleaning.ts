@@ -0,0 +1,489 @@
+import type { CellDetail, CellValue, ParsedSheet } from "./types";
+import { isEmptyCell, toNumber } from "./values";
+import { cellKey } from "./edits";
+
+export type CaseMode = "upper" | "lower" | "title";
+
+// Columns are named rather than indexed, so a recipe saved from one file
+// can be replayed on next month's. An empty list means every column.
+export type CleanStep =
+  | { op: "trim"; columns: string[] }
+  | { op: "case"; columns: string[]; mode: CaseMode }
+  | { op: "dedupe"; columns: string[] }
+  | { op: "fill"; columns: string[]; mode: "down" | "value"; value: string }
+  | { op: "split"; column: string; delimiter: string }
+  | { op: "merge"; columns: string[]; separator: string; name: string }
+  | {
+      op: "replace";
+      columns: string[];
+      find: string;
+      replace: string;
+      regex: boolean;
+      matchCase: boolean;
+    };
+
+export type CleanOp = CleanStep["op"];
+
+export const CLEAN_OPS: { value: CleanOp; label: string }[] = [
+  { value: "trim", label: "Trim whitespace" },
+  { value: "case", label: "Change case" },
+  { value: "dedupe", label: "Remove duplicate rows" },
+  { value: "fill", label: "Fill empty cells" },
+  { value: "split", label: "Split column" },
+  { value: "merge", label: "Merge columns" },
+  { value: "replace", label: "Find / replace" }
+];
+
+// A saved recipe file
+export type CleaningRecipe = {
+  version: 1;
+  steps: CleanStep[];
+};
+
+// Split columns get at most this many parts; the rest stays in the last one
+const MAX_SPLIT_PARTS = 20;
+
+const headerName = (sheet: ParsedSheet, c: number) =>
+  sheet.headers[c] || `Column ${c + 1}`;
+
+function findColumn(sheet: ParsedSheet, name: string) {
+  const lower = name.toLowerCase();
+  return sheet.headers.findIndex(
+    (_, c) => headerName(sheet, c).toLowerCase() === lower
+  );
+}
+
+// New column names made unique against the other columns' names (and each
+// other) with a " (2)" suffix; existing columns keep their names, since
+// recipes refer to columns by name
+function newColumnNames(names: string[], others: string[]): string[] {
+  const taken = new Set(others.map((n) => n.toLowerCase()));
+  return names.map((name) => {
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      unique = `${name} (${n})`;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+const list = (columns: string[]) =>
+  columns.length ? columns.join(", ") : "all columns";
+
+/** "Trim whitespace in Name, City" */
+export function describeStep(step: CleanStep): string {
+  switch (step.op) {
+    case "trim":
+      return `Trim whitespace in ${list(step.columns)}`;
+    case "case":
+      return `${
+        { upper: "UPPERCASE", lower: "lowercase", title: "Title Case" }[
+          step.mode
+        ]
+      } ${list(step.columns)}`;
+    case "dedupe":
+      return step.columns.length
+        ? `Remove rows with duplicate ${list(step.columns)}`
+        : "Remove duplicate rows";
+    case "fill":
+      return step.mode === "down"
+        ? `Fill empty cells down in ${list(step.columns)}`
+        : `Fill empty cells in ${list(step.columns)} with "${step.value}"`;
+    case "split":
+      return `Split ${step.column} on "${step.delimiter}"`;
+    case "merge":
+      return `Merge ${step.columns.join(", ")} into ${step.name}`;
+    case "replace":
+      return `Replace ${
+        step.regex ? `/${step.find}/` : `"${step.find}"`
+      } with "${step.replace}" in ${list(step.columns)}`;
+  }
+}
+
+function stepColumns(step: CleanStep): string[] {
+  return step.op === "split" ? [step.column] : step.columns;
+}
+
+/** Returns an error message when the step can't run on the sheet. */
+export function stepError(step: CleanStep, sheet: ParsedSheet): string | null {
+  const missing = stepColumns(step).filter((c) => findColumn(sheet, c) < 0);
+  if (missing.length) return `No column named ${missing.join(", ")}`;
+  switch (step.op) {
+    case "split":
+      return step.delimiter ? null : "Enter a delimiter";
+    case "merge":
+      if (step.columns.length < 2) return "Pick at least two columns";
+      return step.name.trim() ? null : "Name the merged column";
+    case "replace":
+      if (!step.find) return "Enter the text to find";
+      if (!step.regex) return null;
+      try {
+        new RegExp(step.find);
+        return null;
+      } catch {
+        return "Invalid regular expression";
+      }
+    default:
+      return null;
+  }
+}
+
+// Cells that were numbers stay numbers if the edited text still is one
+function fromText(text: string, original: CellValue): CellValue {
+  if (text === "") return null;
+  if (typeof original === "number") {
+    const n = Number(text);
+    if (String(n) === text) return n;
+  }
+  return text;
+}
+
+// A typed-in fill value: "0" and "12.5" are numbers, "007" stays text
+function fillValue(text: string): CellValue {
+  const n = Number(text.trim());
+  if (text.trim() && String(n) === text.trim()) return n;
+  return text === "" ? null : text;
+}
+
+function mapCells(
+  sheet: ParsedSheet,
+  columns: number[],
+  fn: (value: CellValue) => CellValue
+): CellValue[][] {
+  const set = new Set(columns);
+  return sheet.rows.map((row) => {
+    let copy: CellValue[] | null = null;
+    row.forEach((value, c) => {
+      if (!set.has(c)) return;
+      const next = fn(value ?? null);
+      if (next === value) return;
+      copy ??= row.slice();
+      copy[c] = next;
+    });
+    return copy ?? row;
+  });
+}
+
+function titleCase(text: string) {
+  return text
+    .toLowerCase()
+    .replace(
+      /(^|[\s\-_/(])(\S)/g,
+      (_, gap, first) => gap + first.toUpperCase()
+    );
+}
+
+// Rows count as duplicates when their cells read the same; 1 matches "1.0"
+function dedupeKey(row: CellValue[], columns: number[]) {
+  return columns
+    .map((c) => {
+      const value = row[c];
+      if (isEmptyCell(value)) return "";
+      const n = toNumber(value);
+      return Number.isNaN(n) ? `s${String(value)}` : `n${n}`;
+    })
+    .join("\u0000");
+}
+
+/**
+ * Rebuilds the sheet from new rows and columns, each mapped to the row or
+ * column it came from (null for a new column). Workbook cell details follow
+ * their cells while the value is unchanged. The header source only stays
+ * when the grid keeps its shape, since changing the header row re-reads it.
+ */
+function rebuildSheet(
+  sheet: ParsedSheet,
+  headers: string[],
+  rows: CellValue[][],
+  rowSources: number[],
+  columnSources: (number | null)[]
+): ParsedSheet {
+  const sameShape =
+    rows.length === sheet.rows.length &&
+    rowSources.every((r, i) => r === i) &&
+    columnSources.length === sheet.headers.length &&
+    columnSources.every((c, i) => c === i);
+
+  let cells: Record<string, CellDetail> | undefined;
+  if (sheet.cells) {
+    cells = {};
+    rowSources.forEach((source, r) => {
+      columnSources.forEach((column, c) => {
+        if (column === null) return;
+        const detail = sheet.cells![cellKey(source, column)];
+        if (detail && rows[r][c] === sheet.rows[source][column]) {
+          cells![cellKey(r, c)] = detail;
+        }
+      });
+    });
+  }
+
+  return {
+    ...sheet,
+    headers,
+    rows,
+    columnFormats: columnSources.map((c) =>
+      c === null ? null : sheet.columnFormats?.[c] ?? null
+    ),
+    headerSource: sameShape ? sheet.headerSource : undefined,
+    cells
+  };
+}
+
+const identity = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+/**
+ * Runs one step on a sheet. Sheets with computed columns should have them
+ * stripped first (see setComputedColumns) and re-added after.
+ */
+export function applyStep(
+  sheet: ParsedSheet,
+  step: CleanStep
+): { sheet: ParsedSheet } | { error: string } {
+  const error = stepError(step, sheet);
+  if (error) return { error };
+
+  const columns = step.op === "split" ? [] : step.columns;
+  const targets = columns.length
+    ? columns.map((name) => findColumn(sheet, name))
+    : identity(sheet.headers.length);
+  const rowIds = identity(sheet.rows.length);
+  const columnIds = identity(sheet.headers.length);
+  const withRows = (rows: CellValue[][]) => ({
+    sheet: rebuildSheet(sheet, sheet.headers, rows, rowIds, columnIds)
+  });
+
+  switch (step.op) {
+    case "trim":
+      return withRows(
+        mapCells(sheet, targets, (value) =>
+          typeof value === "string" ? fromText(value.trim(), value) : value
+        )
+      );
+
+    case "case": {
+      const convert =
+        step.mode === "upper"
+          ? (s: string) => s.toUpperCase()
+          : step.mode === "lower"
+          ? (s: string) => s.toLowerCase()
+          : titleCase;
+      return withRows(
+        mapCells(sheet, targets, (value) =>
+          typeof value === "string" ? convert(value) : value
+        )
+      );
+    }
+
+    case "dedupe": {
+      const seen = new Set<string>();
+      const kept: number[] = [];
+      sheet.rows.forEach((row, i) => {
+        const key = dedupeKey(row, targets);
+        if (seen.has(key)) return;
+        seen.add(key);
+        kept.push(i);
+      });
+      return {
+        sheet: rebuildSheet(
+          sheet,
+          sheet.headers,
+          kept.map((i) => sheet.rows[i]),
+          kept,
+          columnIds
+        )
+      };
+    }
+
+    case "fill": {
+      if (step.mode === "value") {
+        const value = fillValue(step.value);
+        return withRows(
+          mapCells(sheet, targets, (cell) => (isEmptyCell(cell) ? value : cell))
+        );
+      }
+      // Each column carries its last non-empty value down
+      const last = new Map<number, CellValue>();
+      const rows = sheet.rows.map((row) => {
+        let copy: CellValue[] | null = null;
+        for (const c of targets) {
+          const value = row[c];
+          if (!isEmptyCell(value)) {
+            last.set(c, value);
+          } else if (last.has(c)) {
+            copy ??= row.slice();
+            copy[c] = last.get(c)!;
+          }
+        }
+        return copy ?? row;
+      });
+      return withRows(rows);
+    }
+
+    case "split": {
+      const source = findColumn(sheet, step.column);
+      const parts = sheet.rows.map((row) => {
+        const value = row[source];
+        if (isEmptyCell(value)) return [];
+        const pieces = String(value).split(step.delimiter);
+        if (pieces.length > MAX_SPLIT_PARTS) {
+          pieces.splice(
+            MAX_SPLIT_PARTS - 1,
+            Infinity,
+            pieces.slice(MAX_SPLIT_PARTS - 1).join(step.delimiter)
+          );
+        }
+        return pieces.map((p) => fromText(p.trim(), value));
+      });
+      // Not Math.max(...): spreading one argument per row overflows the stack
+      const width = parts.reduce((max, p) => Math.max(max, p.length), 1);
+      const name = headerName(sheet, source);
+      const added = newColumnNames(
+        Array.from({ length: width }, (_, i) => `${name} ${i + 1}`),
+        sheet.headers
+          .map((_, c) => headerName(sheet, c))
+          .filter((_, c) => c !== source)
+      );
+      const headers = [
+        ...sheet.headers.slice(0, source),
+        ...added,
+        ...sheet.headers.slice(source + 1)
+      ];
+      const rows = sheet.rows.map((row, r) => [
+        ...row.slice(0, source),
+        ...Array.from({ length: width }, (_, i) => parts[r][i] ?? null),
+        ...row.slice(source + 1)
+      ]);
+      return {
+        sheet: rebuildSheet(sheet, headers, rows, rowIds, [
+          ...columnIds.slice(0, source),
+          ...new Array<null>(width).fill(null),
+          ...columnIds.slice(source + 1)
+        ])
+      };
+    }
+
+    case "merge": {
+      // The merged column takes the place of the first one picked
+      const first = Math.min(...targets);
+      const merged = new Set(targets);
+      const keep = columnIds.filter((c) => c === first || !merged.has(c));
+      const [name] = newColumnNames(
+        [step.name.trim()],
+        keep.filter((c) => c !== first).map((c) => headerName(sheet, c))
+      );
+      const headers = keep.map((c) => (c === first ? name : sheet.headers[c]));
+      const rows = sheet.rows.map((row) => {
+        const text = targets
+          .map((c) => row[c])
+          .filter((value) => !isEmptyCell(value))
+          .map(String)
+          .join(step.separator);
+        return keep.map((c) => (c === first ? text || null : row[c] ?? null));
+      });
+      return {
+        sheet: rebuildSheet(
+          sheet,
+          headers,
+          rows,
+          rowIds,
+          keep.map((c) => (c === first ? null : c))
+        )
+      };
+    }
+
+    case "replace": {
+      const flags = step.matchCase ? "g" : "gi";
+      const pattern = step.regex
+        ? new RegExp(step.find, flags)
+        : new RegExp(step.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), flags);
+      // Plain replacements are literal, so "$" isn't a group reference
+      const replacement = step.regex
+        ? step.replace
+        : step.replace.replace(/\$/g, "$$$$");
+      return withRows(
+        mapCells(sheet, targets, (value) => {
+          if (isEmptyCell(value)) return value;
+          const text = String(value);
+          const next = text.replace(pattern, replacement);
+          return next === text ? value : fromText(next, value);
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Replays steps in order. Steps that can't run (a column the file lacks)
+ * are skipped and returned with the reason, the rest still apply.
+ */
+export function applySteps(
+  sheet: ParsedSheet,
+  steps: CleanStep[]
+): { sheet: ParsedSheet; skipped: { step: CleanStep; error: string }[] } {
+  const skipped: { step: CleanStep; error: string }[] = [];
+  let current = sheet;
+  for (const step of steps) {
+    const result = applyStep(current, step);
+    if ("error" in result) skipped.push({ step, error: result.error });
+    else current = result.sheet;
+  }
+  return { sheet: current, skipped };
+}
+
+/** Pretty-printed JSON for a recipe file. */
+export function recipeToJson(steps: CleanStep[]): string {
+  const recipe: CleaningRecipe = { version: 1, steps };
+  return JSON.stringify(recipe, null, 2);
+}
+
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+function isStep(value: unknown): value is CleanStep {
+  if (!value || typeof value !== "object") return false;
+  const step = value as Record<string, unknown>;
+  const str = (key: string) => typeof step[key] === "string";
+  switch (step.op) {
+    case "trim":
+    case "dedupe":
+      return isStringList(step.columns);
+    case "case":
+      return (
+        isStringList(step.columns) &&
+        ["upper", "lower", "title"].includes(step.mode as string)
+      );
+    case "fill":
+      return (
+        isStringList(step.columns) &&
+        (step.mode === "down" || step.mode === "value") &&
+        str("value")
+      );
+    case "split":
+      return str("column") && str("delimiter");
+    case "merge":
+      return isStringList(step.columns) && str("separator") && str("name");
+    case "replace":
+      return (
+        isStringList(step.columns) &&
+        str("find") &&
+        str("replace") &&
+        typeof step.regex === "boolean" &&
+        typeof step.matchCase === "boolean"
+      );
+    default:
+      return false;
+  }
+}
+
+/** Steps of a recipe file, or null when the text isn't a recipe. */
+export function parseRecipe(text: string): CleanStep[] | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.version !== 1 || !Array.isArray(data.steps)) return null;
+    return data.steps.every(isStep) ? data.steps : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+import type { CellValue, ColumnFormat, ColumnType, ParsedSheet } from "./types";
+import { isEmptyCell, parseDateString, toNumber } from "./values";
+
+export type ColumnDetection = {
+  type: ColumnType;
+  // Share (0–1) of non-empty values consistent with `type`
+  confidence: number;
+  numericRatio: number;
+  dateRatio: number;
+  nonEmptyCount: number;
+  uniqueCount: number;
+};
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  numeric: "Number",
+  date: "Date",
+  categorical: "Category",
+  unknown: "Text"
+};
+
+/**
+ * Classifies a column from its non-empty values: mostly dates, mostly
+ * numbers, a small set of repeated labels (categorical), or free text.
+ * Numbers never count as dates on their own (so "2023" or "5" stay
+ * numeric); date serials are only trusted when the workbook formats them
+ * as dates, which the parser has already turned into ISO text.
+ */
+export function detectColumn(
+  rows: CellValue[][],
+  colIdx: number,
+  format: ColumnFormat = null
+): ColumnDetection {
+  let nonEmptyCount = 0;
+  let numericCount = 0;
+  let dateCount = 0;
+  const unique = new Set<string>();
+
+  for (const row of rows) {
+    const val = row[colIdx];
+    if (isEmptyCell(val)) continue;
+    nonEmptyCount++;
+
+    const s = String(val).trim();
+    unique.add(s);
+
+    if (!Number.isNaN(toNumber(val))) {
+      numericCount++;
+    } else if (!Number.isNaN(parseDateString(s))) {
+      dateCount++;
+    }
+  }
+
+  if (!nonEmptyCount) {
+    return {
+      type: "unknown",
+      confidence: 0,
+      numericRatio: 0,
+      dateRatio: 0,
+      nonEmptyCount,
+      uniqueCount: 0
+    };
+  }
+
+  const numericRatio = numericCount / nonEmptyCount;
+  const dateRatio = dateCount / nonEmptyCount;
+  const base = {
+    numericRatio,
+    dateRatio,
+    nonEmptyCount,
+    uniqueCount: unique.size
+  };
+  const textRatio = 1 - Math.max(numericRatio, dateRatio);
+
+  if (dateRatio > 0.6 || (format === "date" && dateRatio > 0)) {
+    return { ...base, type: "date", confidence: dateRatio };
+  }
+  if (numericRatio > 0.6) {
+    return { ...base, type: "numeric", confidence: numericRatio };
+  }
+  if (unique.size <= Math.min(20, nonEmptyCount)) {
+    return { ...base, type: "categorical", confidence: textRatio };
+  }
+  return { ...base, type: "unknown", confidence: textRatio };
+}
+
+export function detectColumns(sheet: ParsedSheet): ColumnDetection[] {
+  return sheet.headers.map((_, colIdx) =>
+    detectColumn(sheet.rows, colIdx, sheet.columnFormats?.[colIdx])
+  );
+}
+
+/** Applies a manual type override, rescoring confidence for that type. */
+export function withTypeOverride(
+  detection: ColumnDetection,
+  type: ColumnType | undefined
+): ColumnDetection {
+  if (!type || type === detection.type) return detection;
+  const confidence =
+    type === "numeric"
+      ? detection.numericRatio
+      : type === "date"
+      ? // Numbers count too: they read as Excel date serials
+        Math.min(1, detection.dateRatio + detection.numericRatio)
+      : 1 - Math.max(detection.numericRatio, detection.dateRatio);
+  return { ...detection, type, confidence };
+}
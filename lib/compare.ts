@@ -0,0 +1,277 @@
+import type { CellValue, ParsedSheet } from "./types";
+import { isEmptyCell, toNumber } from "./values";
+import { rowKey } from "./join";
+
+export type CompareBy = "key" | "position";
+
+export type CompareOptions = {
+  by: CompareBy;
+  // Header name of the key column, present in both sheets (for "key")
+  key: string;
+};
+
+// A column of either sheet, matched across them by header name
+export type ComparedColumn = {
+  name: string;
+  before: number | null;
+  after: number | null;
+};
+
+export type RowStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type RowDiff = {
+  status: RowStatus;
+  // Row index in each sheet; null on the side the row is missing from
+  before: number | null;
+  after: number | null;
+  // Indexes into `columns` of the cells whose value changed
+  changed: number[];
+};
+
+export type SheetDiff = {
+  columns: ComparedColumn[];
+  // Rows in the new sheet's order, removed rows placed where they used to be
+  rows: RowDiff[];
+  counts: Record<RowStatus, number>;
+  // Changed cells per entry of `columns`
+  columnChanges: number[];
+  // Key values used by more than one row on a side; those pair up in order
+  duplicateKeys: number;
+};
+
+const name = (sheet: ParsedSheet, c: number) =>
+  sheet.headers[c] || `Column ${c + 1}`;
+
+/** Header names found in both sheets, in the first sheet's order. */
+export function sharedColumns(a: ParsedSheet, b: ParsedSheet): string[] {
+  const names = new Set(b.headers.map((_, c) => name(b, c).toLowerCase()));
+  return a.headers
+    .map((_, c) => name(a, c))
+    .filter((n) => names.has(n.toLowerCase()));
+}
+
+/**
+ * The new sheet's columns followed by those only the old one has. Names are
+ * matched without regard to case, so a renamed column shows as removed and
+ * added.
+ */
+function compareColumns(
+  before: ParsedSheet,
+  after: ParsedSheet
+): ComparedColumn[] {
+  const beforeNames = before.headers.map((_, c) =>
+    name(before, c).toLowerCase()
+  );
+  const used = new Set<number>();
+  const columns: ComparedColumn[] = after.headers.map((_, c) => {
+    const i = beforeNames.indexOf(name(after, c).toLowerCase());
+    if (i >= 0) used.add(i);
+    return { name: name(after, c), before: i >= 0 ? i : null, after: c };
+  });
+  before.headers.forEach((_, c) => {
+    if (used.has(c)) return;
+    columns.push({ name: name(before, c), before: c, after: null });
+  });
+  return columns;
+}
+
+/** True when two cells hold the same value; 1 and "1.0" are the same. */
+export function sameValue(a: CellValue | undefined, b: CellValue | undefined) {
+  const emptyA = isEmptyCell(a);
+  const emptyB = isEmptyCell(b);
+  if (emptyA || emptyB) return emptyA && emptyB;
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (!Number.isNaN(x) || !Number.isNaN(y)) return x === y;
+  return String(a) === String(b);
+}
+
+// Pairs of row indexes (before, after) that are the same record
+function pairRows(
+  before: ParsedSheet,
+  after: ParsedSheet,
+  options: CompareOptions
+): { pairs: [number | null, number | null][]; duplicateKeys: number } {
+  if (options.by === "position") {
+    const length = Math.max(before.rows.length, after.rows.length);
+    const pairs: [number | null, number | null][] = [];
+    for (let i = 0; i < length; i++) {
+      pairs.push([
+        i < before.rows.length ? i : null,
+        i < after.rows.length ? i : null
+      ]);
+    }
+    return { pairs, duplicateKeys: 0 };
+  }
+
+  const find = (sheet: ParsedSheet) =>
+    sheet.headers.findIndex(
+      (_, c) => name(sheet, c).toLowerCase() === options.key.toLowerCase()
+    );
+  const beforeKey = [find(before)];
+  const afterKey = [find(after)];
+
+  // Old rows by key, queued so duplicate keys pair up first with first
+  const queues = new Map<string, number[]>();
+  const duplicates = new Set<string>();
+  before.rows.forEach((row, i) => {
+    const key = rowKey(row, beforeKey);
+    if (key === null) return;
+    const queue = queues.get(key);
+    if (queue) {
+      queue.push(i);
+      duplicates.add(key);
+    } else queues.set(key, [i]);
+  });
+
+  const seen = new Set<string>();
+  const matched = new Set<number>();
+  const pairs: [number | null, number | null][] = [];
+  after.rows.forEach((row, i) => {
+    const key = rowKey(row, afterKey);
+    if (key !== null && seen.has(key)) duplicates.add(key);
+    if (key !== null) seen.add(key);
+    const partner = key === null ? undefined : queues.get(key)?.shift();
+    if (partner !== undefined) matched.add(partner);
+    pairs.push([partner ?? null, i]);
+  });
+
+  // Removed rows go in front of the first later old row that is still present
+  const ordered: [number | null, number | null][] = [];
+  let next = 0;
+  const flushRemoved = (upTo: number) => {
+    for (; next < upTo; next++) {
+      if (!matched.has(next)) ordered.push([next, null]);
+    }
+  };
+  for (const pair of pairs) {
+    if (pair[0] !== null && pair[0] >= next) {
+      flushRemoved(pair[0]);
+      next = pair[0] + 1;
+    }
+    ordered.push(pair);
+  }
+  flushRemoved(before.rows.length);
+  return { pairs: ordered, duplicateKeys: duplicates.size };
+}
+
+/**
+ * Compares an old and a new version of a sheet. Rows are paired by position
+ * or by a key column, whose values are matched as in joins (rows sharing a
+ * key pair up in order; blank keys never pair). Columns are paired by name.
+ */
+export function compareSheets(
+  before: ParsedSheet,
+  after: ParsedSheet,
+  options: CompareOptions
+): SheetDiff {
+  const columns = compareColumns(before, after);
+  const { pairs, duplicateKeys } = pairRows(before, after, options);
+  const counts: Record<RowStatus, number> = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0
+  };
+  const columnChanges = columns.map(() => 0);
+
+  const rows = pairs.map(([b, a]): RowDiff => {
+    let status: RowStatus;
+    const changed: number[] = [];
+    if (b === null) status = "added";
+    else if (a === null) status = "removed";
+    else {
+      const oldRow = before.rows[b];
+      const newRow = after.rows[a];
+      columns.forEach((column, i) => {
+        // Columns on one side only are reported as such, not per cell
+        if (column.before === null || column.after === null) return;
+        if (!sameValue(oldRow[column.before], newRow[column.after])) {
+          changed.push(i);
+          columnChanges[i]++;
+        }
+      });
+      status = changed.length ? "changed" : "unchanged";
+    }
+    counts[status]++;
+    return { status, before: b, after: a, changed };
+  });
+
+  return { columns, rows, counts, columnChanges, duplicateKeys };
+}
+
+/** Cell of a compared column in the row's old or new version. */
+export function diffCell(
+  sheet: ParsedSheet,
+  row: number | null,
+  column: number | null
+): CellValue {
+  if (row === null || column === null) return null;
+  return sheet.rows[row]?.[column] ?? null;
+}
+
+const text = (value: CellValue) => (isEmptyCell(value) ? "" : String(value));
+
+/**
+ * The diff as a table for export: a Status column, then each compared
+ * column with "old → new" in changed cells. Unchanged rows are left out
+ * unless asked for.
+ */
+export function diffReport(
+  diff: SheetDiff,
+  before: ParsedSheet,
+  after: ParsedSheet,
+  includeUnchanged = false
+): { headers: string[]; rows: CellValue[][] } {
+  const headers = [
+    "Status",
+    ...diff.columns.map((column) =>
+      column.after === null
+        ? `${column.name} (removed column)`
+        : column.before === null
+        ? `${column.name} (new column)`
+        : column.name
+    )
+  ];
+  const rows = diff.rows
+    .filter((row) => includeUnchanged || row.status !== "unchanged")
+    .map((row) => [
+      row.status,
+      ...diff.columns.map((column, i) => {
+        const oldValue = diffCell(before, row.before, column.before);
+        const newValue = diffCell(after, row.after, column.after);
+        if (row.changed.includes(i)) {
+          return `${text(oldValue)} → ${text(newValue)}`;
+        }
+        return row.after === null ? oldValue : newValue;
+      })
+    ]);
+  return { headers, rows };
+}
+
+/** Per-column counts of the diff, for the report's summary sheet. */
+export function diffSummary(diff: SheetDiff): {
+  headers: string[];
+  rows: CellValue[][];
+} {
+  const rows: CellValue[][] = diff.columns.map((column, i) => [
+    column.name,
+    column.before === null
+      ? "new column"
+      : column.after === null
+      ? "removed column"
+      : "in both",
+    diff.columnChanges[i]
+  ]);
+  return {
+    headers: ["Column", "Presence", "Changed cells"],
+    rows: [
+      ...rows,
+      [],
+      ["Rows added", null, diff.counts.added],
+      ["Rows removed", null, diff.counts.removed],
+      ["Rows changed", null, diff.counts.changed],
+      ["Rows unchanged", null, diff.counts.unchanged]
+    ]
+  };
+}
@@ -0,0 +1,329 @@
+import type { CellValue, ColumnType } from "./types";
+import { isEmptyCell, parseDateString, toNumber, toTimestamp } from "./values";
+import { createId } from "./ids";
+
+export type FormatRuleKind =
+  // scales over the column
+  | "colorScale"
+  | "dataBar"
+  // highlights
+  | "greaterThan"
+  | "lessThan"
+  | "contains"
+  | "duplicate"
+  | "blank"
+  | "top"
+  | "bottom";
+
+export type FormatColor = "rose" | "amber" | "emerald" | "sky" | "violet";
+
+export type FormatRule = {
+  id: string;
+  column: number;
+  kind: FormatRuleKind;
+  // Threshold for greaterThan/lessThan (number or date), text for contains
+  value: string;
+  // N for top/bottom
+  count: number;
+  color: FormatColor;
+};
+
+// Tailwind 500 shades for the grid, and a light tint for Excel's white cells
+export const FORMAT_COLORS: Record<
+  FormatColor,
+  { label: string; rgb: [number, number, number]; hex: string; tint: string }
+> = {
+  rose: { label: "Red", rgb: [244, 63, 94], hex: "F43F5E", tint: "FECDD3" },
+  amber: { label: "Amber", rgb: [245, 158, 11], hex: "F59E0B", tint: "FDE68A" },
+  emerald: {
+    label: "Green",
+    rgb: [16, 185, 129],
+    hex: "10B981",
+    tint: "A7F3D0"
+  },
+  sky: { label: "Blue", rgb: [14, 165, 233], hex: "0EA5E9", tint: "BAE6FD" },
+  violet: {
+    label: "Purple",
+    rgb: [139, 92, 246],
+    hex: "8B5CF6",
+    tint: "DDD6FE"
+  }
+};
+
+const KINDS_BY_TYPE: Record<
+  ColumnType,
+  { value: FormatRuleKind; label: string }[]
+> = {
+  numeric: [
+    { value: "colorScale", label: "Color scale" },
+    { value: "dataBar", label: "Data bar" },
+    { value: "greaterThan", label: "Value >" },
+    { value: "lessThan", label: "Value <" },
+    { value: "top", label: "Top N" },
+    { value: "bottom", label: "Bottom N" },
+    { value: "duplicate", label: "Is duplicate" },
+    { value: "blank", label: "Is blank" }
+  ],
+  date: [
+    { value: "colorScale", label: "Color scale" },
+    { value: "greaterThan", label: "After" },
+    { value: "lessThan", label: "Before" },
+    { value: "top", label: "Latest N" },
+    { value: "bottom", label: "Earliest N" },
+    { value: "duplicate", label: "Is duplicate" },
+    { value: "blank", label: "Is blank" }
+  ],
+  categorical: [
+    { value: "contains", label: "Contains text" },
+    { value: "duplicate", label: "Is duplicate" },
+    { value: "blank", label: "Is blank" }
+  ],
+  unknown: [
+    { value: "contains", label: "Contains text" },
+    { value: "duplicate", label: "Is duplicate" },
+    { value: "blank", label: "Is blank" }
+  ]
+};
+
+export function ruleKindsForType(type: ColumnType | undefined) {
+  return KINDS_BY_TYPE[type ?? "unknown"];
+}
+
+/** False when the column's (possibly overridden) type no longer fits the rule. */
+export function ruleFitsType(
+  rule: FormatRule,
+  type: ColumnType | undefined
+): boolean {
+  return ruleKindsForType(type).some((k) => k.value === rule.kind);
+}
+
+/** "Value > 500", "Top 10", … in the column type's wording. */
+export function describeRule(
+  rule: FormatRule,
+  type: ColumnType | undefined
+): string {
+  const label =
+    ruleKindsForType(type).find((k) => k.value === rule.kind)?.label ??
+    rule.kind;
+  switch (rule.kind) {
+    case "greaterThan":
+    case "lessThan":
+      return `${label} ${rule.value}`;
+    case "contains":
+      return `${label} "${rule.value}"`;
+    case "top":
+    case "bottom":
+      return label.replace("N", String(rule.count));
+    default:
+      return label;
+  }
+}
+
+/** Number a rule compares on: the value, or epoch ms for date columns. */
+export function ruleNumber(
+  value: CellValue | undefined,
+  type: ColumnType | undefined
+): number {
+  return type === "date" ? toTimestamp(value) : toNumber(value);
+}
+
+/** The typed threshold of a greaterThan/lessThan rule, or NaN. */
+export function ruleThreshold(
+  rule: FormatRule,
+  type: ColumnType | undefined
+): number {
+  return type === "date"
+    ? parseDateString(rule.value)
+    : toNumber(rule.value.trim());
+}
+
+/** Returns an error message when the rule's operand can't be used. */
+export function ruleError(
+  rule: FormatRule,
+  type: ColumnType | undefined
+): string | null {
+  switch (rule.kind) {
+    case "greaterThan":
+    case "lessThan":
+      if (!Number.isNaN(ruleThreshold(rule, type))) return null;
+      return type === "date"
+        ? "Enter a date, e.g. 2024-01-31"
+        : "Enter a number";
+    case "contains":
+      return rule.value ? null : "Enter the text to look for";
+    case "top":
+    case "bottom":
+      return Number.isInteger(rule.count) && rule.count > 0
+        ? null
+        : "N must be a whole number above 0";
+    default:
+      return null;
+  }
+}
+
+export function createFormatRule(
+  column: number,
+  type: ColumnType | undefined
+): FormatRule {
+  return {
+    id: createId("r"),
+    column,
+    kind: ruleKindsForType(type)[0].value,
+    value: "",
+    count: 10,
+    color: "emerald"
+  };
+}
+
+/** How one cell is drawn; every part is optional. */
+export type ConditionalStyle = {
+  // CSS fill from a highlight rule or color scale
+  background?: string;
+  // Data bar length as a fraction of the cell width, 0–1
+  bar?: number;
+  barColor?: string;
+};
+
+type CellTest = (value: CellValue) => ConditionalStyle | null;
+
+function rgba(color: FormatColor, alpha: number) {
+  const [r, g, b] = FORMAT_COLORS[color].rgb;
+  return `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(2)})`;
+}
+
+// Duplicates ignore case and surrounding spaces, and 1 matches "1.0"
+function duplicateKey(value: CellValue): string {
+  const n = toNumber(value);
+  return Number.isNaN(n) ? String(value).trim().toLowerCase() : String(n);
+}
+
+function compileRule(
+  rule: FormatRule,
+  rows: CellValue[][],
+  type: ColumnType | undefined
+): CellTest | null {
+  const column = rule.column;
+  const highlight = { background: rgba(rule.color, 0.35) };
+  const numbers = () =>
+    rows.flatMap((row) => {
+      const n = ruleNumber(row[column], type);
+      return Number.isNaN(n) ? [] : [n];
+    });
+
+  switch (rule.kind) {
+    case "colorScale":
+    case "dataBar": {
+      const values = numbers();
+      if (!values.length) return null;
+      let min = Infinity;
+      let max = -Infinity;
+      for (const n of values) {
+        if (n < min) min = n;
+        if (n > max) max = n;
+      }
+      if (rule.kind === "colorScale") {
+        return (value) => {
+          const n = ruleNumber(value, type);
+          if (Number.isNaN(n)) return null;
+          const t = max > min ? (n - min) / (max - min) : 1;
+          return { background: rgba(rule.color, 0.08 + 0.52 * t) };
+        };
+      }
+      // Bars grow from zero, or from the lowest value when that is negative
+      const low = Math.min(0, min);
+      return (value) => {
+        const n = ruleNumber(value, type);
+        if (Number.isNaN(n)) return null;
+        const bar = max > low ? (n - low) / (max - low) : 1;
+        return {
+          bar: Math.max(0, Math.min(1, bar)),
+          barColor: rgba(rule.color, 0.45)
+        };
+      };
+    }
+    case "greaterThan":
+    case "lessThan": {
+      const threshold = ruleThreshold(rule, type);
+      if (Number.isNaN(threshold)) return null;
+      const above = rule.kind === "greaterThan";
+      return (value) => {
+        const n = ruleNumber(value, type);
+        if (Number.isNaN(n)) return null;
+        return (above ? n > threshold : n < threshold) ? highlight : null;
+      };
+    }
+    case "contains": {
+      const needle = rule.value.toLowerCase();
+      if (!needle) return null;
+      return (value) =>
+        !isEmptyCell(value) && String(value).toLowerCase().includes(needle)
+          ? highlight
+          : null;
+    }
+    case "duplicate": {
+      const counts = new Map<string, number>();
+      for (const row of rows) {
+        if (isEmptyCell(row[column])) continue;
+        const key = duplicateKey(row[column]);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      return (value) =>
+        !isEmptyCell(value) && (counts.get(duplicateKey(value)) ?? 0) > 1
+          ? highlight
+          : null;
+    }
+    case "blank":
+      return (value) => (isEmptyCell(value) ? highlight : null);
+    case "top":
+    case "bottom": {
+      if (!(rule.count > 0)) return null;
+      const top = rule.kind === "top";
+      const sorted = numbers().sort((a, b) => (top ? b - a : a - b));
+      if (!sorted.length) return null;
+      // Ties with the Nth value are included, as in Excel
+      const cutoff = sorted[Math.min(rule.count, sorted.length) - 1];
+      return (value) => {
+        const n = ruleNumber(value, type);
+        if (Number.isNaN(n)) return null;
+        return (top ? n >= cutoff : n <= cutoff) ? highlight : null;
+      };
+    }
+  }
+}
+
+/**
+ * Turns the rules into one style function per column. Scales, duplicates and
+ * top/bottom N are measured over `rows` (the rows on screen). When several
+ * rules fill the same cell the earliest one wins; rules that don't suit the
+ * column's current type are skipped.
+ */
+export function compileFormatRules(
+  rules: FormatRule[],
+  rows: CellValue[][],
+  columnTypes: ColumnType[]
+): Map<number, (value: CellValue) => ConditionalStyle | null> {
+  const tests = new Map<number, CellTest[]>();
+  for (const rule of rules) {
+    const type = columnTypes[rule.column];
+    if (!ruleFitsType(rule, type) || ruleError(rule, type)) continue;
+    const test = compileRule(rule, rows, type);
+    if (!test) continue;
+    const list = tests.get(rule.column);
+    if (list) list.push(test);
+    else tests.set(rule.column, [test]);
+  }
+
+  const formatters = new Map<
+    number,
+    (value: CellValue) => ConditionalStyle | null
+  >();
+  tests.forEach((list, column) => {
+    formatters.set(column, (value) => {
+      const styles = list.flatMap((test) => test(value) ?? []);
+      if (!styles.length) return null;
+      // Merged from the last rule back, so earlier rules keep what they set
+      return Object.assign({}, ...styles.reverse());
+    });
+  });
+  return formatters;
+}
@@ -0,0 +1,344 @@
+import type { CellValue, ColumnFormat, ParsedSheet } from "./types";
+import { detectHeaderRow, splitAtHeader } from "./headers";
+
+export type DecimalSeparator = "." | ",";
+export type ThousandsSeparator = "" | "," | "." | " " | "'";
+export type CsvDateFormat = "auto" | "ymd" | "dmy" | "mdy";
+
+export type CsvOptions = {
+  encoding: string;
+  delimiter: string;
+  quote: string;
+  decimal: DecimalSeparator;
+  thousands: ThousandsSeparator;
+  dateFormat: CsvDateFormat;
+  // Lines dropped from the top before anything else (e.g. export banners)
+  skipRows: number;
+};
+
+export const CSV_ENCODINGS: { value: string; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252 (Western)" },
+  { value: "iso-8859-1", label: "ISO-8859-1 (Latin-1)" },
+  { value: "iso-8859-2", label: "ISO-8859-2 (Central European)" },
+  { value: "shift_jis", label: "Shift JIS" },
+  { value: "gbk", label: "GBK" }
+];
+
+export const CSV_DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" }
+];
+
+export const CSV_DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: "auto", label: "Auto (ISO / as written)" },
+  { value: "ymd", label: "YYYY-MM-DD" },
+  { value: "dmy", label: "DD/MM/YYYY" },
+  { value: "mdy", label: "MM/DD/YYYY" }
+];
+
+const TEXT_EXTENSIONS = [".csv", ".tsv", ".txt"];
+
+export function isTextFile(fileName: string) {
+  const lower = fileName.toLowerCase();
+  return TEXT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/** Encoding from the byte-order mark, else UTF-8 if the bytes are valid UTF-8. */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  // UTF-16 without a BOM: every other byte of ASCII text is zero
+  const sample = bytes.subarray(0, 1000);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((b, i) => {
+    if (b === 0) {
+      if (i % 2) oddZeros++;
+      else evenZeros++;
+    }
+  });
+  if (oddZeros > sample.length / 4) return "utf-16le";
+  if (evenZeros > sample.length / 4) return "utf-16be";
+
+  try {
+    // Streaming, so a multi-byte character cut off at the end of the sample
+    // is held back rather than rejected
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes.subarray(0, 65536), {
+      stream: true
+    });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+export function decodeText(buffer: ArrayBuffer, encoding: string): string {
+  // TextDecoder strips a matching BOM by default
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+/**
+ * Splits delimited text into rows of raw field strings, honouring quoted
+ * fields (with doubled quotes as escapes and embedded newlines). Stops after
+ * `limit` rows when given.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: string,
+  quote: string,
+  limit = Infinity
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < text.length && rows.length < limit) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (quote && ch === quote && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if ((field || row.length) && rows.length < limit) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Guesses delimiter, separators and date order from a sample of the text.
+ * The delimiter is the candidate that splits the most lines into the same
+ * (more than one) number of fields.
+ */
+export function detectCsvOptions(text: string, encoding: string): CsvOptions {
+  const sample = text.slice(0, 65536);
+  let delimiter = ",";
+  let bestScore = 0;
+  for (const { value } of CSV_DELIMITER_OPTIONS) {
+    const rows = parseDelimited(sample, value, '"', 50).filter(
+      (r) => r.length > 1 || r[0] !== ""
+    );
+    const counts = new Map<number, number>();
+    rows.forEach((r) => counts.set(r.length, (counts.get(r.length) ?? 0) + 1));
+    let score = 0;
+    counts.forEach((count, width) => {
+      if (width > 1) score = Math.max(score, count * Math.log2(width + 1));
+    });
+    if (score > bestScore) {
+      bestScore = score;
+      delimiter = value;
+    }
+  }
+
+  const fields = parseDelimited(sample, delimiter, '"', 200).flat();
+
+  // "1.234,56" / "12,5" read as comma decimals (unless "," is the delimiter)
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  for (const f of fields) {
+    const s = f.trim();
+    if (/^-?[\d.]*\d,\d{1,2}$|^-?\d{1,3}(\.\d{3})+,\d+$/.test(s)) {
+      commaDecimal++;
+    }
+    if (/^-?[\d,]*\d\.\d{1,2}$|^-?\d{1,3}(,\d{3})+\.\d+$/.test(s)) dotDecimal++;
+  }
+  const decimal: DecimalSeparator =
+    delimiter !== "," && commaDecimal > dotDecimal ? "," : ".";
+
+  // Day-first when some date has a first part over 12
+  let dateFormat: CsvDateFormat = "auto";
+  for (const f of fields) {
+    const m = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/.exec(f.trim());
+    if (!m) continue;
+    if (+m[1] > 12) {
+      dateFormat = "dmy";
+      break;
+    }
+    if (+m[2] > 12) dateFormat = "mdy";
+  }
+
+  return {
+    encoding,
+    delimiter,
+    quote: '"',
+    decimal,
+    thousands: decimal === "," ? "." : ",",
+    dateFormat,
+    skipRows: 0
+  };
+}
+
+const CURRENCY = /[$€£¥₹]/;
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  if (year < 100) year += year < 50 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDateField(s: string, format: CsvDateFormat): string | null {
+  if (format === "auto") return null;
+  const m = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(.*)$/.exec(s);
+  if (!m) return null;
+  const [, a, b, c, rest] = m;
+  // Keep a trailing time ("13:45") as written
+  const time = rest.trim();
+  if (time && !/^\d{1,2}:\d{2}(:\d{2})?$/.test(time)) return null;
+  const date =
+    format === "ymd"
+      ? toIsoDate(+a, +b, +c)
+      : format === "dmy"
+      ? toIsoDate(+c, +b, +a)
+      : toIsoDate(+c, +a, +b);
+  return date && time ? `${date} ${time}` : date;
+}
+
+function parseNumberField(s: string, options: CsvOptions): number {
+  let t = s.replace(/\s/g, "");
+  let negative = false;
+  if (t.startsWith("(") && t.endsWith(")")) {
+    negative = true;
+    t = t.slice(1, -1);
+  }
+  let percent = false;
+  if (t.endsWith("%")) {
+    percent = true;
+    t = t.slice(0, -1);
+  }
+  t = t.replace(/[$€£¥₹]/g, "");
+
+  const point = t.indexOf(options.decimal);
+  let whole = point >= 0 ? t.slice(0, point) : t;
+  const fraction = point >= 0 ? t.slice(point + 1) : "";
+  // Grouping must be in threes ("1,234"), so "12,5" isn't read as 125
+  const sep = options.thousands.trim();
+  if (sep && whole.includes(sep)) {
+    const groups = whole.replace(/^[-+]/, "").split(sep);
+    if (
+      groups[0].length < 1 ||
+      groups[0].length > 3 ||
+      groups.slice(1).some((g) => g.length !== 3)
+    ) {
+      return NaN;
+    }
+    whole = whole.split(sep).join("");
+  }
+  t = point >= 0 ? `${whole}.${fraction}` : whole;
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(t)) return NaN;
+  let n = Number(t);
+  if (negative) n = -n;
+  if (percent) n /= 100;
+  return n;
+}
+
+/** Typed cell value of one raw field under the chosen separators/date order. */
+export function convertField(raw: string, options: CsvOptions): CellValue {
+  const s = raw.trim();
+  if (!s) return null;
+  const n = parseNumberField(s, options);
+  if (!Number.isNaN(n)) return n;
+  return parseDateField(s, options.dateFormat) ?? raw;
+}
+
+/** Rows after `skipRows`, converted to typed values (for the preview too). */
+export function convertRows(
+  text: string,
+  options: CsvOptions,
+  limit = Infinity
+): CellValue[][] {
+  const raw = parseDelimited(
+    text,
+    options.delimiter,
+    options.quote,
+    limit + options.skipRows
+  ).slice(options.skipRows);
+  return raw.map((row) => row.map((field) => convertField(field, options)));
+}
+
+/**
+ * Builds a sheet from delimited text, with the same header detection as
+ * workbook sheets. Percent/currency formats come from the raw text.
+ */
+export function csvToSheet(
+  name: string,
+  text: string,
+  options: CsvOptions
+): ParsedSheet {
+  const raw = parseDelimited(text, options.delimiter, options.quote).slice(
+    options.skipRows
+  );
+  const grid = raw.map((row) =>
+    row.map((field) => convertField(field, options))
+  );
+
+  const detected = detectHeaderRow(grid);
+  const { headers, rows, headerSource } = splitAtHeader(
+    grid,
+    detected.row,
+    detected.depth,
+    detected,
+    options.skipRows + 1
+  );
+
+  // Majority format of each column's numeric fields
+  const dataStart = detected.row + detected.depth;
+  const columnFormats: ColumnFormat[] = headers.map((_, c) => {
+    let numeric = 0;
+    let percent = 0;
+    let currency = 0;
+    for (let r = dataStart; r < grid.length; r++) {
+      if (typeof grid[r][c] !== "number") continue;
+      numeric++;
+      const field = raw[r][c];
+      if (field.includes("%")) percent++;
+      else if (CURRENCY.test(field)) currency++;
+    }
+    if (percent > numeric / 2) return "percent";
+    if (currency > numeric / 2) return "currency";
+    return null;
+  });
+
+  return { name, headers, rows, columnFormats, headerSource };
+}
@@ -0,0 +1,129 @@
+import type { CellDetail, CellValue, ColumnType, ParsedSheet } from "./types";
+import { formatIsoDate, isEmptyCell, parseNumber, toTimestamp } from "./values";
+
+export type CellEdit = {
+  // Index into ParsedSheet.rows (not the filtered/sorted view)
+  row: number;
+  column: number;
+  before: CellValue;
+  after: CellValue;
+  // Workbook details the cell had before the edit, put back on undo
+  detail?: CellDetail;
+};
+
+export type EditHistory = {
+  past: CellEdit[];
+  future: CellEdit[];
+};
+
+export const emptyHistory: EditHistory = { past: [], future: [] };
+
+export type CellChange = {
+  row: number;
+  column: number;
+  original: CellValue;
+  current: CellValue;
+  // Workbook details from before the first edit, put back on revert
+  detail?: CellDetail;
+};
+
+export function cellKey(row: number, column: number) {
+  return `${row}:${column}`;
+}
+
+/**
+ * Sets one cell's value. Excel's formatted text and formula describe the old
+ * value, so they are dropped (a hyperlink stays with the cell) unless
+ * `restore` gives the details to put back, as when undoing an edit.
+ */
+export function setCell(
+  sheet: ParsedSheet,
+  row: number,
+  column: number,
+  value: CellValue,
+  restore?: CellDetail
+): ParsedSheet {
+  const rows = sheet.rows.slice();
+  const updated = rows[row].slice();
+  updated[column] = value;
+  rows[row] = updated;
+
+  const key = cellKey(row, column);
+  if (restore) {
+    return { ...sheet, rows, cells: { ...sheet.cells, [key]: restore } };
+  }
+  const detail = sheet.cells?.[key];
+  if (!detail || (detail.text === undefined && detail.formula === undefined)) {
+    return { ...sheet, rows };
+  }
+  const { text, formula, ...rest } = detail;
+  const cells = { ...sheet.cells };
+  if (rest.link === undefined) delete cells[key];
+  else cells[key] = rest;
+  return { ...sheet, rows, cells };
+}
+
+/** Text shown in the editor when a cell is opened. */
+export function cellInputText(value: CellValue, type: ColumnType): string {
+  if (isEmptyCell(value)) return "";
+  if (type === "date") {
+    const t = toTimestamp(value);
+    if (!Number.isNaN(t)) return formatIsoDate(t);
+  }
+  return String(value);
+}
+
+/**
+ * Validates editor text against the column type. Numbers are stored as
+ * numbers and dates as ISO text, matching what the parser produces; an
+ * empty input clears the cell.
+ */
+export function parseCellInput(
+  text: string,
+  type: ColumnType
+): { value: CellValue } | { error: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return { value: null };
+
+  if (type === "numeric") {
+    const n = parseNumber(trimmed);
+    return Number.isNaN(n) ? { error: "Expected a number" } : { value: n };
+  }
+  if (type === "date") {
+    const t = toTimestamp(trimmed);
+    return Number.isNaN(t)
+      ? { error: "Expected a date (YYYY-MM-DD)" }
+      : { value: formatIsoDate(t) };
+  }
+  return { value: text };
+}
+
+/**
+ * Cells whose current value differs from the value they had before their
+ * first edit. Undoing back to the original removes a cell from the list.
+ */
+export function collectChanges(
+  history: EditHistory,
+  sheet: ParsedSheet
+): CellChange[] {
+  const originals = new Map<string, CellEdit>();
+  for (const edit of history.past) {
+    const key = cellKey(edit.row, edit.column);
+    if (!originals.has(key)) originals.set(key, edit);
+  }
+
+  const changes: CellChange[] = [];
+  originals.forEach((edit) => {
+    const current = sheet.rows[edit.row]?.[edit.column] ?? null;
+    if (current !== edit.before) {
+      changes.push({
+        row: edit.row,
+        column: edit.column,
+        original: edit.before,
+        current,
+        detail: edit.detail
+      });
+    }
+  });
+  return changes.sort((a, b) => a.row - b.row || a.column - b.column);
+}
@@ -0,0 +1,320 @@
+import * as XLSX from "xlsx";
+import type { CellValue, ColumnFormat, ColumnType } from "./types";
+import { isEmptyCell, timestampToExcelSerial, toTimestamp } from "./values";
+import {
+  FORMAT_COLORS,
+  FormatRule,
+  ruleError,
+  ruleFitsType,
+  ruleThreshold
+} from "./conditionalFormat";
+
+export type ExportFormat = "xlsx" | "csv" | "json" | "clipboard";
+
+export type ExportOptions = {
+  format: ExportFormat;
+  // Only used for CSV
+  delimiter: string;
+  // "view" = filtered/sorted rows, "all" = every row in sheet order
+  scope: "view" | "all";
+  includeHidden: boolean;
+};
+
+export const defaultExportOptions: ExportOptions = {
+  format: "xlsx",
+  delimiter: ",",
+  scope: "view",
+  includeHidden: false
+};
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" }
+];
+
+export type ExportTable = {
+  headers: string[];
+  rows: CellValue[][];
+  columnTypes: ColumnType[];
+  columnFormats: ColumnFormat[];
+  // Conditional formatting, with columns renumbered to the exported ones
+  formatRules: FormatRule[];
+};
+
+/** Picks the exported columns (by index) out of every row. */
+export function selectColumns(
+  headers: string[],
+  rows: CellValue[][],
+  columns: number[],
+  columnTypes: ColumnType[],
+  columnFormats?: ColumnFormat[],
+  formatRules?: FormatRule[]
+): ExportTable {
+  return {
+    headers: columns.map((c) => headers[c] || `Column ${c + 1}`),
+    rows: rows.map((row) => columns.map((c) => row[c] ?? null)),
+    columnTypes: columns.map((c) => columnTypes[c] ?? "unknown"),
+    columnFormats: columns.map((c) => columnFormats?.[c] ?? null),
+    formatRules: (formatRules ?? []).flatMap((rule) => {
+      const column = columns.indexOf(rule.column);
+      return column < 0 ? [] : [{ ...rule, column }];
+    })
+  };
+}
+
+function quoteField(value: CellValue, delimiter: string) {
+  if (isEmptyCell(value)) return "";
+  const s = String(value);
+  if (
+    s.includes(delimiter) ||
+    s.includes('"') ||
+    s.includes("\n") ||
+    s.includes("\r")
+  ) {
+    return `"${s.replace(/"/g, '""')}"`;
+  }
+  return s;
+}
+
+/** CSV/TSV text with RFC 4180 quoting. */
+export function toDelimited(table: ExportTable, delimiter: string): string {
+  const lines = [table.headers, ...table.rows].map((row) =>
+    row.map((value) => quoteField(value, delimiter)).join(delimiter)
+  );
+  return lines.join("\r\n");
+}
+
+/** Array of objects keyed by header. */
+export function toJson(table: ExportTable): string {
+  const objects = table.rows.map((row) => {
+    const entry: Record<string, CellValue> = {};
+    table.headers.forEach((header, i) => {
+      entry[header] = row[i] ?? null;
+    });
+    return entry;
+  });
+  return JSON.stringify(objects, null, 2);
+}
+
+const NUMBER_FORMATS: Record<string, string> = {
+  date: "yyyy-mm-dd",
+  percent: "0.00%",
+  currency: "#,##0.00"
+};
+
+// Excel limits sheet names to 31 chars and forbids a few characters
+function safeSheetName(name: string) {
+  return name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Sheet1";
+}
+
+/**
+ * Worksheet for the table. Date columns are written back as real Excel dates
+ * and percent/currency columns keep their number format.
+ */
+export function toWorksheet(table: ExportTable): XLSX.WorkSheet {
+  const worksheet = XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]);
+
+  table.columnTypes.forEach((type, c) => {
+    const format =
+      type === "date"
+        ? "date"
+        : type === "numeric"
+        ? table.columnFormats[c]
+        : null;
+    if (!format) return;
+
+    table.rows.forEach((_, r) => {
+      const address = XLSX.utils.encode_cell({ r: r + 1, c });
+      const cell = worksheet[address] as XLSX.CellObject | undefined;
+      if (!cell) return;
+      if (format === "date" && cell.t === "s") {
+        const t = toTimestamp(cell.v as string);
+        if (Number.isNaN(t)) return;
+        cell.t = "n";
+        cell.v = timestampToExcelSerial(t);
+      }
+      if (cell.t === "n") cell.z = NUMBER_FORMATS[format];
+    });
+  });
+
+  return worksheet;
+}
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Excel writes a fill in a differential format (dxf) with the bgColor
+function highlightDxf(rule: FormatRule) {
+  return `<dxf><fill><patternFill><bgColor rgb="FF${
+    FORMAT_COLORS[rule.color].tint
+  }"/></patternFill></fill></dxf>`;
+}
+
+/**
+ * <conditionalFormatting> elements for the worksheet, plus the dxf styles
+ * their highlight rules point at. Rules are kept live, so Excel re-evaluates
+ * them over the exported rows.
+ */
+function conditionalFormattingXml(table: ExportTable) {
+  const dxfs: string[] = [];
+  const blocks: string[] = [];
+  const lastRow = table.rows.length + 1;
+
+  table.formatRules.forEach((rule) => {
+    const type = table.columnTypes[rule.column];
+    if (!ruleFitsType(rule, type) || ruleError(rule, type)) return;
+    const letter = XLSX.utils.encode_col(rule.column);
+    const first = `${letter}2`;
+    const priority = blocks.length + 1;
+    const dxfId = () => {
+      dxfs.push(highlightDxf(rule));
+      return dxfs.length - 1;
+    };
+    const color = `<color rgb="FF${FORMAT_COLORS[rule.color].hex}"/>`;
+
+    let cfRule: string;
+    switch (rule.kind) {
+      case "colorScale":
+        cfRule = `<cfRule type="colorScale" priority="${priority}"><colorScale><cfvo type="min"/><cfvo type="max"/><color rgb="FFFFFFFF"/>${color}</colorScale></cfRule>`;
+        break;
+      case "dataBar":
+        cfRule = `<cfRule type="dataBar" priority="${priority}"><dataBar><cfvo type="min"/><cfvo type="max"/>${color}</dataBar></cfRule>`;
+        break;
+      case "greaterThan":
+      case "lessThan": {
+        const threshold = ruleThreshold(rule, type);
+        // Date columns are written as serials, so compare against one
+        const operand =
+          type === "date" ? timestampToExcelSerial(threshold) : threshold;
+        cfRule = `<cfRule type="cellIs" dxfId="${dxfId()}" priority="${priority}" operator="${
+          rule.kind
+        }"><formula>${operand}</formula></cfRule>`;
+        break;
+      }
+      case "contains": {
+        const text = rule.value.replace(/"/g, '""');
+        cfRule = `<cfRule type="containsText" dxfId="${dxfId()}" priority="${priority}" operator="containsText" text="${escapeXml(
+          rule.value
+        )}"><formula>${escapeXml(
+          `NOT(ISERROR(SEARCH("${text}",${first})))`
+        )}</formula></cfRule>`;
+        break;
+      }
+      case "duplicate":
+        cfRule = `<cfRule type="duplicateValues" dxfId="${dxfId()}" priority="${priority}"/>`;
+        break;
+      case "blank":
+        cfRule = `<cfRule type="containsBlanks" dxfId="${dxfId()}" priority="${priority}"><formula>LEN(TRIM(${first}))=0</formula></cfRule>`;
+        break;
+      case "top":
+      case "bottom":
+        cfRule = `<cfRule type="top10" dxfId="${dxfId()}" priority="${priority}" rank="${
+          rule.count
+        }"${rule.kind === "bottom" ? ' bottom="1"' : ""}/>`;
+        break;
+    }
+    blocks.push(
+      `<conditionalFormatting sqref="${first}:${letter}${lastRow}">${cfRule}</conditionalFormatting>`
+    );
+  });
+
+  return { dxfs, xml: blocks.join("") };
+}
+
+type ZipEntry = { content: Uint8Array; size: number };
+
+// SheetJS Community doesn't write conditional formatting, so it is spliced
+// into the saved package's first sheet and styles parts
+function addConditionalFormatting(
+  data: ArrayBuffer,
+  table: ExportTable
+): ArrayBuffer {
+  const { dxfs, xml } = conditionalFormattingXml(table);
+  if (!xml) return data;
+
+  const zip = XLSX.CFB.read(new Uint8Array(data), { type: "array" });
+  const sheet: ZipEntry | null = XLSX.CFB.find(
+    zip,
+    "/xl/worksheets/sheet1.xml"
+  );
+  const styles: ZipEntry | null = XLSX.CFB.find(zip, "/xl/styles.xml");
+  if (!sheet || !styles) return data;
+
+  const read = (entry: ZipEntry) => new TextDecoder().decode(entry.content);
+  const write = (entry: ZipEntry, text: string) => {
+    entry.content = new TextEncoder().encode(text);
+    entry.size = entry.content.length;
+  };
+
+  // Schema order puts conditional formatting right after sheetData/mergeCells
+  const sheetXml = read(sheet);
+  const anchor = sheetXml.includes("</mergeCells>")
+    ? "</mergeCells>"
+    : "</sheetData>";
+  write(sheet, sheetXml.replace(anchor, anchor + xml));
+
+  if (dxfs.length) {
+    const stylesXml = read(styles).replace(
+      /<dxfs count="0"\/>|<dxfs[^>]*>[\s\S]*?<\/dxfs>/,
+      `<dxfs count="${dxfs.length}">${dxfs.join("")}</dxfs>`
+    );
+    write(styles, stylesXml);
+  }
+
+  // The "array" output is a Uint8Array, unlike XLSX.write's ArrayBuffer
+  const zipped: Uint8Array = XLSX.CFB.write(zip, {
+    fileType: "zip",
+    type: "array"
+  });
+  const buffer = new ArrayBuffer(zipped.length);
+  new Uint8Array(buffer).set(zipped);
+  return buffer;
+}
+
+/** Workbook with the table, plus any further sheets after it. */
+export function toXlsx(
+  table: ExportTable,
+  sheetName: string,
+  moreSheets: { name: string; table: ExportTable }[] = []
+): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    toWorksheet(table),
+    safeSheetName(sheetName)
+  );
+  moreSheets.forEach((sheet) =>
+    XLSX.utils.book_append_sheet(
+      workbook,
+      toWorksheet(sheet.table),
+      safeSheetName(sheet.name)
+    )
+  );
+  return addConditionalFormatting(
+    XLSX.write(workbook, { type: "array", bookType: "xlsx" }),
+    table
+  );
+}
+
+/** "sales.xlsx" + "Q1" -> "sales - Q1" */
+export function exportFileName(fileName: string | null, sheetName: string) {
+  const base = fileName ? fileName.replace(/\.[^.]+$/, "") : "export";
+  return `${base} - ${sheetName}`.replace(/[\\/:*?"<>|]/g, "_");
+}
+
+export function downloadFile(data: BlobPart, name: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Revoke after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
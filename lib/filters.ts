@@ -0,0 +1,304 @@
+import type { CellValue, ColumnType } from "./types";
+import { isEmptyCell, toNumber, toTimestamp } from "./values";
+import { createId } from "./ids";
+
+export type FilterOperator =
+  // numeric
+  | "gt"
+  | "lt"
+  | "between"
+  // date
+  | "after"
+  | "before"
+  | "dateBetween"
+  // categorical
+  | "in"
+  // text
+  | "contains"
+  | "regex"
+  | "isEmpty"
+  | "notEmpty";
+
+export type ColumnFilter = {
+  id: string;
+  column: number;
+  operator: FilterOperator;
+  // First operand (number, date, substring or pattern)
+  value: string;
+  // Upper bound for "between" / "dateBetween"
+  valueTo: string;
+  // Selected values for "in"
+  values: string[];
+};
+
+export type MatchMode = "and" | "or";
+
+export type FilterGroup = {
+  id: string;
+  mode: MatchMode;
+  filters: ColumnFilter[];
+};
+
+// Groups are combined with `mode`; filters inside a group with the group's own mode
+export type FilterState = {
+  mode: MatchMode;
+  groups: FilterGroup[];
+};
+
+export const emptyFilters: FilterState = { mode: "and", groups: [] };
+
+const OPERATORS_BY_TYPE: Record<
+  ColumnType,
+  { value: FilterOperator; label: string }[]
+> = {
+  numeric: [
+    { value: "gt", label: ">" },
+    { value: "lt", label: "<" },
+    { value: "between", label: "between" },
+    { value: "isEmpty", label: "is empty" },
+    { value: "notEmpty", label: "is not empty" }
+  ],
+  date: [
+    { value: "after", label: "on or after" },
+    { value: "before", label: "on or before" },
+    { value: "dateBetween", label: "between" },
+    { value: "isEmpty", label: "is empty" },
+    { value: "notEmpty", label: "is not empty" }
+  ],
+  categorical: [
+    { value: "in", label: "is one of" },
+    { value: "isEmpty", label: "is empty" },
+    { value: "notEmpty", label: "is not empty" }
+  ],
+  unknown: [
+    { value: "contains", label: "contains" },
+    { value: "regex", label: "matches regex" },
+    { value: "isEmpty", label: "is empty" },
+    { value: "notEmpty", label: "is not empty" }
+  ]
+};
+
+export function operatorsForType(type: ColumnType | undefined) {
+  return OPERATORS_BY_TYPE[type ?? "unknown"];
+}
+
+/** True for the operators the filter panel offers. */
+export function isFilterOperator(value: unknown): value is FilterOperator {
+  return Object.values(OPERATORS_BY_TYPE).some((operators) =>
+    operators.some((o) => o.value === value)
+  );
+}
+
+export function createFilterId(prefix = "f"): string {
+  return createId(prefix);
+}
+
+export function createFilter(
+  column: number,
+  type: ColumnType | undefined
+): ColumnFilter {
+  return {
+    id: createFilterId(),
+    column,
+    operator: operatorsForType(type)[0].value,
+    value: "",
+    valueTo: "",
+    values: []
+  };
+}
+
+export function hasActiveFilters(state: FilterState): boolean {
+  return state.groups.some((g) => g.filters.length > 0);
+}
+
+/** Removes one filter, dropping its group if that leaves it empty. */
+export function removeFilter(
+  state: FilterState,
+  groupId: string,
+  filterId: string
+): FilterState {
+  return {
+    ...state,
+    groups: state.groups
+      .map((g) =>
+        g.id === groupId
+          ? { ...g, filters: g.filters.filter((f) => f.id !== filterId) }
+          : g
+      )
+      .filter((g) => g.filters.length > 0)
+  };
+}
+
+/** Returns an error message when the filter's operand can't be used. */
+export function filterError(filter: ColumnFilter): string | null {
+  if (filter.operator !== "regex" || !filter.value) return null;
+  try {
+    new RegExp(filter.value, "i");
+    return null;
+  } catch {
+    return "Invalid regular expression";
+  }
+}
+
+type RowPredicate = (row: CellValue[]) => boolean;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// NaN bounds are open; a NaN value never matches
+function inRange(value: number, min: number, max: number, strict: boolean) {
+  if (Number.isNaN(value)) return false;
+  if (!Number.isNaN(min) && (strict ? value <= min : value < min)) return false;
+  if (!Number.isNaN(max) && (strict ? value >= max : value > max)) return false;
+  return true;
+}
+
+// Builds a predicate for one filter, or null when it is still incomplete
+// (no operand yet / invalid regex) and should not restrict the rows.
+function compileFilter(filter: ColumnFilter): RowPredicate | null {
+  const col = filter.column;
+
+  switch (filter.operator) {
+    case "isEmpty":
+      return (row) => isEmptyCell(row[col]);
+    case "notEmpty":
+      return (row) => !isEmptyCell(row[col]);
+
+    case "gt":
+    case "lt":
+    case "between": {
+      const min = filter.operator === "lt" ? NaN : toNumber(filter.value);
+      const max = toNumber(
+        filter.operator === "between"
+          ? filter.valueTo
+          : filter.operator === "lt"
+          ? filter.value
+          : ""
+      );
+      if (Number.isNaN(min) && Number.isNaN(max)) return null;
+      // Strict for > / <, inclusive for between
+      const strict = filter.operator !== "between";
+      return (row) => inRange(toNumber(row[col]), min, max, strict);
+    }
+
+    case "after":
+    case "before":
+    case "dateBetween": {
+      const from =
+        filter.operator === "before" ? NaN : toTimestamp(filter.value);
+      const to = toTimestamp(
+        filter.operator === "dateBetween"
+          ? filter.valueTo
+          : filter.operator === "before"
+          ? filter.value
+          : ""
+      );
+      if (Number.isNaN(from) && Number.isNaN(to)) return null;
+      // The upper bound covers the whole day
+      const toEndOfDay = to + DAY_MS - 1;
+      return (row) => inRange(toTimestamp(row[col]), from, toEndOfDay, false);
+    }
+
+    case "in": {
+      if (!filter.values.length) return null;
+      const selected = new Set(filter.values);
+      return (row) => {
+        const v = row[col];
+        return selected.has(isEmptyCell(v) ? "" : String(v));
+      };
+    }
+
+    case "contains": {
+      if (!filter.value) return null;
+      const q = filter.value.toLowerCase();
+      return (row) =>
+        String(row[col] ?? "")
+          .toLowerCase()
+          .includes(q);
+    }
+
+    case "regex": {
+      if (!filter.value || filterError(filter)) return null;
+      const re = new RegExp(filter.value, "i");
+      return (row) => re.test(String(row[col] ?? ""));
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compiles the filter tree into a single row predicate. Operands are parsed
+ * once up front so the per-row work is just comparisons.
+ */
+export function compileFilters(state: FilterState): RowPredicate {
+  const groups = state.groups
+    .map((group) => {
+      const predicates = group.filters
+        .map(compileFilter)
+        .filter((p): p is RowPredicate => p !== null);
+      if (!predicates.length) return null;
+      const predicate: RowPredicate =
+        group.mode === "and"
+          ? (row) => predicates.every((p) => p(row))
+          : (row) => predicates.some((p) => p(row));
+      return predicate;
+    })
+    .filter((p): p is RowPredicate => p !== null);
+
+  if (!groups.length) return () => true;
+  return state.mode === "and"
+    ? (row) => groups.every((p) => p(row))
+    : (row) => groups.some((p) => p(row));
+}
+
+/** Distinct non-empty values of a column, most frequent first. */
+export function distinctValues(
+  rows: CellValue[][],
+  column: number,
+  limit = 200
+): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const v = row[column];
+    if (isEmptyCell(v)) continue;
+    const key = String(v);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/** Short label for a filter chip, e.g. `Amount > 500`. */
+export function describeFilter(filter: ColumnFilter, header: string): string {
+  switch (filter.operator) {
+    case "gt":
+      return `${header} > ${filter.value || "…"}`;
+    case "lt":
+      return `${header} < ${filter.value || "…"}`;
+    case "between":
+    case "dateBetween":
+      return `${header} ${filter.value || "…"} – ${filter.valueTo || "…"}`;
+    case "after":
+      return `${header} ≥ ${filter.value || "…"}`;
+    case "before":
+      return `${header} ≤ ${filter.value || "…"}`;
+    case "in": {
+      if (!filter.values.length) return `${header} is one of …`;
+      const shown = filter.values.slice(0, 2).join(", ");
+      const more =
+        filter.values.length > 2 ? ` +${filter.values.length - 2}` : "";
+      return `${header} ∈ ${shown}${more}`;
+    }
+    case "contains":
+      return `${header} contains "${filter.value}"`;
+    case "regex":
+      return `${header} ~ /${filter.value}/`;
+    case "isEmpty":
+      return `${header} is empty`;
+    case "notEmpty":
+      return `${header} is not empty`;
+  }
+}
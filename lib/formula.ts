@@ -0,0 +1,917 @@
+import type { CellValue, ComputedColumn, ParsedSheet } from "./types";
+import {
+  formatIsoDate,
+  isEmptyCell,
+  parseDateString,
+  timestampToExcelSerial,
+  toNumber,
+  toTimestamp
+} from "./values";
+
+// Error values written into computed cells, as in Excel
+export const FORMULA_ERRORS: Record<string, string> = {
+  "#REF!": "Refers to a column that doesn't exist (or comes after this one)",
+  "#VALUE!": "A value has the wrong type, e.g. text where a number is needed",
+  "#DIV/0!": "Division by zero",
+  "#NUM!": "The result isn't a finite number"
+};
+
+export function isFormulaError(value: CellValue | undefined): boolean {
+  return typeof value === "string" && value in FORMULA_ERRORS;
+}
+
+type Value = number | string | boolean | null;
+
+export type FormulaNode =
+  | { type: "literal"; value: Value }
+  | { type: "column"; name: string }
+  | { type: "unary"; op: "-" | "+"; operand: FormulaNode }
+  | { type: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+class FormulaError extends Error {
+  constructor(public code: string) {
+    super(code);
+  }
+}
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "column"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+const OPERATORS = ["<=", ">=", "<>", "!=", "==", "=", "<", ">", "+", "-"];
+const SINGLE_OPS = "*/^&(),";
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    // "text" / 'text' with a doubled quote as escape; [Column Name] with ]]
+    if (ch === '"' || ch === "'" || ch === "[") {
+      const close = ch === "[" ? "]" : ch;
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= source.length) {
+          throw new Error(
+            ch === "[" ? "Missing ] after column name" : "Unclosed text"
+          );
+        }
+        if (source[i] === close) {
+          if (source[i + 1] !== close) break;
+          i++;
+        }
+        value += source[i++];
+      }
+      i++;
+      tokens.push({ kind: ch === "[" ? "column" : "string", value });
+      continue;
+    }
+
+    const ident = /^[A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*/.exec(
+      source.slice(i)
+    );
+    if (ident) {
+      tokens.push({ kind: "ident", value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op =
+      OPERATORS.find((o) => source.startsWith(o, i)) ??
+      (SINGLE_OPS.includes(ch) ? ch : null);
+    if (!op) throw new Error(`Unexpected "${ch}"`);
+    tokens.push({ kind: "op", value: op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+// --- Parser (recursive descent, loosest binding first) ---
+
+const COMPARISONS = ["=", "==", "<>", "!=", "<", "<=", ">", ">="];
+
+/**
+ * Parses an expression such as `(Revenue - Cost) / Revenue` or
+ * `IF([Unit Price] > 10, "high", "low")`. Bare words are column names
+ * unless followed by "("; names with spaces or symbols go in brackets.
+ * Throws an Error with a readable message on bad syntax.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const t = tokens[pos];
+    return t?.kind === "op" && t.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    pos++;
+  };
+
+  function binaryLevel(ops: string[], next: () => FormulaNode) {
+    return () => {
+      let left = next();
+      while (peek()?.kind === "op" && ops.includes(peek().value as string)) {
+        const op = tokens[pos++].value as string;
+        left = { type: "binary", op, left, right: next() };
+      }
+      return left;
+    };
+  }
+
+  function unary(): FormulaNode {
+    if (isOp("-") || isOp("+")) {
+      const op = tokens[pos++].value as "-" | "+";
+      return { type: "unary", op, operand: unary() };
+    }
+    return power();
+  }
+
+  // Right-associative: 2^3^2 = 2^9
+  function power(): FormulaNode {
+    const base = primary();
+    if (!isOp("^")) return base;
+    pos++;
+    return { type: "binary", op: "^", left: base, right: unary() };
+  }
+
+  function primary(): FormulaNode {
+    const token = tokens[pos++];
+    if (!token) throw new Error("Expression ends too early");
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "column":
+        return { type: "column", name: token.value };
+      case "ident": {
+        if (isOp("(")) {
+          pos++;
+          const args: FormulaNode[] = [];
+          if (!isOp(")")) {
+            args.push(comparison());
+            while (isOp(",")) {
+              pos++;
+              args.push(comparison());
+            }
+          }
+          expect(")");
+          return { type: "call", name: token.value.toUpperCase(), args };
+        }
+        const upper = token.value.toUpperCase();
+        if (upper === "TRUE" || upper === "FALSE") {
+          return { type: "literal", value: upper === "TRUE" };
+        }
+        return { type: "column", name: token.value };
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = comparison();
+          expect(")");
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.value}"`);
+    }
+  }
+
+  const multiplicative = binaryLevel(["*", "/"], unary);
+  const additive = binaryLevel(["+", "-"], multiplicative);
+  const concat = binaryLevel(["&"], additive);
+  const comparison = binaryLevel(COMPARISONS, concat);
+
+  if (!tokens.length) throw new Error("Enter an expression");
+  const node = comparison();
+  if (pos < tokens.length) {
+    const extra = tokens[pos];
+    throw new Error(
+      `Unexpected ${extra.kind === "op" ? `"${extra.value}"` : extra.value}`
+    );
+  }
+  checkCalls(node);
+  return node;
+}
+
+// --- Values ---
+
+function text(value: Value): string {
+  if (value === null) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return String(value);
+}
+
+function asCell(value: Value): CellValue {
+  return typeof value === "boolean" ? text(value) : value;
+}
+
+// Blanks count as 0; date text becomes an Excel serial so dates subtract
+function num(value: Value): number {
+  if (value === null) return 0;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const n = toNumber(value);
+  if (!Number.isNaN(n)) return n;
+  const t = parseDateString(String(value));
+  if (!Number.isNaN(t)) return timestampToExcelSerial(t);
+  if (value === "") return 0;
+  throw new FormulaError("#VALUE!");
+}
+
+function truthy(value: Value): boolean {
+  if (value === null || value === "") return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const upper = value.trim().toUpperCase();
+  if (upper === "TRUE") return true;
+  if (upper === "FALSE") return false;
+  const n = toNumber(value);
+  if (Number.isNaN(n)) throw new FormulaError("#VALUE!");
+  return n !== 0;
+}
+
+function timestamp(value: Value): number {
+  const t = toTimestamp(asCell(value));
+  if (Number.isNaN(t)) throw new FormulaError("#VALUE!");
+  return t;
+}
+
+function dateValue(ts: number): string {
+  if (!Number.isFinite(ts)) throw new FormulaError("#NUM!");
+  return formatIsoDate(ts);
+}
+
+// Numbers compare as numbers, dates as dates, anything else as
+// case-insensitive text (like Excel's "=")
+function compare(a: Value, b: Value): number {
+  const na = toNumber(asCell(a));
+  const nb = toNumber(asCell(b));
+  if (!Number.isNaN(na) && !Number.isNaN(nb)) return na - nb;
+  const da = toTimestamp(asCell(a));
+  const db = toTimestamp(asCell(b));
+  if (!Number.isNaN(da) && !Number.isNaN(db)) return da - db;
+  const sa = text(a).toLowerCase();
+  const sb = text(b).toLowerCase();
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function addMonths(ts: number, months: number) {
+  const d = new Date(ts);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Jan 31 + 1 month is the last day of February
+  const last = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  d.setUTCDate(Math.min(day, last));
+  return d.getTime();
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateUnit(value: Value): "day" | "week" | "month" | "year" {
+  const unit = text(value).toLowerCase().replace(/s$/, "");
+  if (unit === "day" || unit === "week" || unit === "month" || unit === "year")
+    return unit;
+  throw new FormulaError("#VALUE!");
+}
+
+// --- Functions ---
+
+// Arguments are evaluated on demand, so IF/CASE/IFERROR only run the
+// branch they need
+type Arg = () => Value;
+
+type FormulaFunction = {
+  min: number;
+  max: number;
+  signature: string;
+  description: string;
+  run: (args: Arg[]) => Value;
+};
+
+const numbers = (args: Arg[]) => args.map((a) => num(a()));
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Conditional
+  IF: {
+    min: 2,
+    max: 3,
+    signature: "IF(condition, then, [else])",
+    description: "then when the condition holds, else otherwise",
+    run: ([cond, then, otherwise]) =>
+      truthy(cond()) ? then() : otherwise ? otherwise() : null
+  },
+  CASE: {
+    min: 2,
+    max: Infinity,
+    signature: "CASE(cond1, result1, cond2, result2, …, [else])",
+    description: "Result of the first condition that holds",
+    run: (args) => {
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        if (truthy(args[i]())) return args[i + 1]();
+      }
+      return args.length % 2 ? args[args.length - 1]() : null;
+    }
+  },
+  IFERROR: {
+    min: 2,
+    max: 2,
+    signature: "IFERROR(value, fallback)",
+    description: "fallback when value is an error",
+    run: ([value, fallback]) => {
+      try {
+        return value();
+      } catch (err) {
+        if (err instanceof FormulaError) return fallback();
+        throw err;
+      }
+    }
+  },
+  AND: {
+    min: 1,
+    max: Infinity,
+    signature: "AND(a, b, …)",
+    description: "TRUE when all hold",
+    run: (args) => args.every((a) => truthy(a()))
+  },
+  OR: {
+    min: 1,
+    max: Infinity,
+    signature: "OR(a, b, …)",
+    description: "TRUE when any holds",
+    run: (args) => args.some((a) => truthy(a()))
+  },
+  NOT: {
+    min: 1,
+    max: 1,
+    signature: "NOT(a)",
+    description: "Negation",
+    run: ([a]) => !truthy(a())
+  },
+  ISBLANK: {
+    min: 1,
+    max: 1,
+    signature: "ISBLANK(value)",
+    description: "TRUE for empty cells",
+    run: ([a]) => isEmptyCell(asCell(a()))
+  },
+  ISNUMBER: {
+    min: 1,
+    max: 1,
+    signature: "ISNUMBER(value)",
+    description: "TRUE for numbers",
+    run: ([a]) => {
+      const v = a();
+      return v !== null && !Number.isNaN(toNumber(asCell(v)));
+    }
+  },
+
+  // Arithmetic
+  ABS: {
+    min: 1,
+    max: 1,
+    signature: "ABS(x)",
+    description: "Absolute value",
+    run: ([x]) => Math.abs(num(x()))
+  },
+  ROUND: {
+    min: 1,
+    max: 2,
+    signature: "ROUND(x, [digits])",
+    description: "Rounds to a number of decimal places",
+    run: ([x, digits]) => {
+      const factor = 10 ** (digits ? num(digits()) : 0);
+      return Math.round(num(x()) * factor) / factor;
+    }
+  },
+  FLOOR: {
+    min: 1,
+    max: 1,
+    signature: "FLOOR(x)",
+    description: "Rounds down",
+    run: ([x]) => Math.floor(num(x()))
+  },
+  CEILING: {
+    min: 1,
+    max: 1,
+    signature: "CEILING(x)",
+    description: "Rounds up",
+    run: ([x]) => Math.ceil(num(x()))
+  },
+  SQRT: {
+    min: 1,
+    max: 1,
+    signature: "SQRT(x)",
+    description: "Square root",
+    run: ([x]) => Math.sqrt(num(x()))
+  },
+  POWER: {
+    min: 2,
+    max: 2,
+    signature: "POWER(x, y)",
+    description: "x to the power y (same as x ^ y)",
+    run: ([x, y]) => num(x()) ** num(y())
+  },
+  MOD: {
+    min: 2,
+    max: 2,
+    signature: "MOD(x, y)",
+    description: "Remainder, with the sign of y",
+    run: ([x, y]) => {
+      const divisor = num(y());
+      if (divisor === 0) throw new FormulaError("#DIV/0!");
+      const n = num(x());
+      return n - divisor * Math.floor(n / divisor);
+    }
+  },
+  MIN: {
+    min: 1,
+    max: Infinity,
+    signature: "MIN(a, b, …)",
+    description: "Smallest value",
+    run: (args) => Math.min(...numbers(args))
+  },
+  MAX: {
+    min: 1,
+    max: Infinity,
+    signature: "MAX(a, b, …)",
+    description: "Largest value",
+    run: (args) => Math.max(...numbers(args))
+  },
+  SUM: {
+    min: 1,
+    max: Infinity,
+    signature: "SUM(a, b, …)",
+    description: "Total",
+    run: (args) => numbers(args).reduce((a, b) => a + b, 0)
+  },
+  AVERAGE: {
+    min: 1,
+    max: Infinity,
+    signature: "AVERAGE(a, b, …)",
+    description: "Mean",
+    run: (args) => numbers(args).reduce((a, b) => a + b, 0) / args.length
+  },
+
+  // Text
+  UPPER: {
+    min: 1,
+    max: 1,
+    signature: "UPPER(text)",
+    description: "Upper case",
+    run: ([s]) => text(s()).toUpperCase()
+  },
+  LOWER: {
+    min: 1,
+    max: 1,
+    signature: "LOWER(text)",
+    description: "Lower case",
+    run: ([s]) => text(s()).toLowerCase()
+  },
+  TRIM: {
+    min: 1,
+    max: 1,
+    signature: "TRIM(text)",
+    description: "Removes outer spaces and collapses inner ones",
+    run: ([s]) => text(s()).trim().replace(/\s+/g, " ")
+  },
+  LEN: {
+    min: 1,
+    max: 1,
+    signature: "LEN(text)",
+    description: "Number of characters",
+    run: ([s]) => text(s()).length
+  },
+  LEFT: {
+    min: 1,
+    max: 2,
+    signature: "LEFT(text, [count])",
+    description: "First characters",
+    run: ([s, n]) => text(s()).slice(0, Math.max(0, n ? num(n()) : 1))
+  },
+  RIGHT: {
+    min: 1,
+    max: 2,
+    signature: "RIGHT(text, [count])",
+    description: "Last characters",
+    run: ([s, n]) => {
+      const count = Math.max(0, n ? num(n()) : 1);
+      const value = text(s());
+      return count ? value.slice(-count) : "";
+    }
+  },
+  MID: {
+    min: 3,
+    max: 3,
+    signature: "MID(text, start, count)",
+    description: "Characters from a 1-based position",
+    run: ([s, start, n]) => {
+      const from = Math.max(1, num(start())) - 1;
+      return text(s()).slice(from, from + Math.max(0, num(n())));
+    }
+  },
+  CONCAT: {
+    min: 1,
+    max: Infinity,
+    signature: "CONCAT(a, b, …)",
+    description: "Joins text (same as a & b)",
+    run: (args) => args.map((a) => text(a())).join("")
+  },
+  SUBSTITUTE: {
+    min: 3,
+    max: 3,
+    signature: "SUBSTITUTE(text, find, replacement)",
+    description: "Replaces every occurrence",
+    run: ([s, find, replacement]) => {
+      const needle = text(find());
+      const value = text(s());
+      return needle ? value.split(needle).join(text(replacement())) : value;
+    }
+  },
+  CONTAINS: {
+    min: 2,
+    max: 2,
+    signature: "CONTAINS(text, part)",
+    description: "TRUE when text includes part (any case)",
+    run: ([s, part]) =>
+      text(s()).toLowerCase().includes(text(part()).toLowerCase())
+  },
+  VALUE: {
+    min: 1,
+    max: 1,
+    signature: "VALUE(text)",
+    description: "Reads text as a number",
+    run: ([s]) => {
+      const n = toNumber(asCell(s()));
+      if (Number.isNaN(n)) throw new FormulaError("#VALUE!");
+      return n;
+    }
+  },
+
+  // Dates (results are ISO dates, so the column is detected as dates)
+  DATE: {
+    min: 3,
+    max: 3,
+    signature: "DATE(year, month, day)",
+    description: "Builds a date",
+    run: ([y, m, d]) => dateValue(Date.UTC(num(y()), num(m()) - 1, num(d())))
+  },
+  TODAY: {
+    min: 0,
+    max: 0,
+    signature: "TODAY()",
+    description: "Today's date",
+    run: () => {
+      const now = new Date();
+      return dateValue(
+        Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())
+      );
+    }
+  },
+  YEAR: {
+    min: 1,
+    max: 1,
+    signature: "YEAR(date)",
+    description: "Year number",
+    run: ([d]) => new Date(timestamp(d())).getUTCFullYear()
+  },
+  MONTH: {
+    min: 1,
+    max: 1,
+    signature: "MONTH(date)",
+    description: "Month, 1–12",
+    run: ([d]) => new Date(timestamp(d())).getUTCMonth() + 1
+  },
+  DAY: {
+    min: 1,
+    max: 1,
+    signature: "DAY(date)",
+    description: "Day of the month",
+    run: ([d]) => new Date(timestamp(d())).getUTCDate()
+  },
+  WEEKDAY: {
+    min: 1,
+    max: 1,
+    signature: "WEEKDAY(date)",
+    description: "Day of the week, 1 (Sunday) – 7",
+    run: ([d]) => new Date(timestamp(d())).getUTCDay() + 1
+  },
+  DATEADD: {
+    min: 3,
+    max: 3,
+    signature: 'DATEADD(date, count, "day|week|month|year")',
+    description: "Shifts a date",
+    run: ([d, n, unit]) => {
+      const ts = timestamp(d());
+      const count = Math.trunc(num(n()));
+      switch (dateUnit(unit())) {
+        case "day":
+          return dateValue(ts + count * DAY_MS);
+        case "week":
+          return dateValue(ts + count * 7 * DAY_MS);
+        case "month":
+          return dateValue(addMonths(ts, count));
+        case "year":
+          return dateValue(addMonths(ts, count * 12));
+      }
+    }
+  },
+  DATEDIFF: {
+    min: 2,
+    max: 3,
+    signature: 'DATEDIFF(start, end, ["day|week|month|year"])',
+    description: "Whole units from start to end (days by default)",
+    run: ([start, end, unit]) => {
+      const a = timestamp(start());
+      const b = timestamp(end());
+      switch (unit ? dateUnit(unit()) : "day") {
+        case "day":
+          return Math.trunc((b - a) / DAY_MS);
+        case "week":
+          return Math.trunc((b - a) / (7 * DAY_MS));
+        case "month":
+        case "year": {
+          const from = new Date(a);
+          const to = new Date(b);
+          let months =
+            (to.getUTCFullYear() - from.getUTCFullYear()) * 12 +
+            to.getUTCMonth() -
+            from.getUTCMonth();
+          // Not a whole month yet
+          if (months > 0 && addMonths(a, months) > b) months--;
+          if (months < 0 && addMonths(a, months) < b) months++;
+          return unit && dateUnit(unit()) === "year"
+            ? Math.trunc(months / 12)
+            : months;
+        }
+      }
+    }
+  }
+};
+
+// Unknown functions and wrong argument counts are syntax errors
+function checkCalls(node: FormulaNode) {
+  switch (node.type) {
+    case "unary":
+      checkCalls(node.operand);
+      break;
+    case "binary":
+      checkCalls(node.left);
+      checkCalls(node.right);
+      break;
+    case "call": {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      if (!fn) throw new Error(`Unknown function ${node.name}`);
+      if (node.args.length < fn.min || node.args.length > fn.max) {
+        throw new Error(`Wrong number of arguments: ${fn.signature}`);
+      }
+      node.args.forEach(checkCalls);
+      break;
+    }
+  }
+}
+
+/** Column names an expression refers to, in order of appearance. */
+export function formulaColumns(node: FormulaNode): string[] {
+  switch (node.type) {
+    case "literal":
+      return [];
+    case "column":
+      return [node.name];
+    case "unary":
+      return formulaColumns(node.operand);
+    case "binary":
+      return [...formulaColumns(node.left), ...formulaColumns(node.right)];
+    case "call":
+      return node.args.flatMap(formulaColumns);
+  }
+}
+
+// Exact header first, then ignoring case
+function findColumn(headers: string[], name: string): number {
+  const exact = headers.indexOf(name);
+  if (exact >= 0) return exact;
+  const lower = name.toLowerCase();
+  return headers.findIndex((h) => h.toLowerCase() === lower);
+}
+
+/**
+ * Problem with an expression over the given columns, or null when it can be
+ * computed: bad syntax, unknown functions or unknown column names.
+ */
+export function formulaError(source: string, headers: string[]): string | null {
+  try {
+    const node = parseFormula(source);
+    const missing = formulaColumns(node).find(
+      (name) => findColumn(headers, name) < 0
+    );
+    return missing === undefined ? null : `Unknown column "${missing}"`;
+  } catch (err: any) {
+    return err?.message ?? "Invalid expression";
+  }
+}
+
+// --- Evaluation ---
+
+function evaluate(
+  node: FormulaNode,
+  row: CellValue[],
+  columns: Map<string, number>
+): Value {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "column": {
+      const index = columns.get(node.name);
+      if (index === undefined) throw new FormulaError("#REF!");
+      const value = row[index] ?? null;
+      // Errors in an earlier computed column carry through
+      if (isFormulaError(value)) throw new FormulaError(value as string);
+      return value;
+    }
+    case "unary": {
+      const n = num(evaluate(node.operand, row, columns));
+      return node.op === "-" ? -n : n;
+    }
+    case "binary": {
+      const left = evaluate(node.left, row, columns);
+      const right = evaluate(node.right, row, columns);
+      switch (node.op) {
+        case "+":
+          return num(left) + num(right);
+        case "-":
+          return num(left) - num(right);
+        case "*":
+          return num(left) * num(right);
+        case "/": {
+          const divisor = num(right);
+          if (divisor === 0) throw new FormulaError("#DIV/0!");
+          return num(left) / divisor;
+        }
+        case "^":
+          return num(left) ** num(right);
+        case "&":
+          return text(left) + text(right);
+        case "=":
+        case "==":
+          return compare(left, right) === 0;
+        case "<>":
+        case "!=":
+          return compare(left, right) !== 0;
+        case "<":
+          return compare(left, right) < 0;
+        case "<=":
+          return compare(left, right) <= 0;
+        case ">":
+          return compare(left, right) > 0;
+        case ">=":
+          return compare(left, right) >= 0;
+      }
+      throw new Error(`Unknown operator ${node.op}`);
+    }
+    case "call":
+      return FORMULA_FUNCTIONS[node.name].run(
+        node.args.map((arg) => () => evaluate(arg, row, columns))
+      );
+  }
+}
+
+// Booleans are stored as TRUE/FALSE text; failures as an error code
+function toCellValue(value: Value): CellValue {
+  if (typeof value === "boolean") return text(value);
+  if (typeof value === "number" && !Number.isFinite(value)) return "#NUM!";
+  return value;
+}
+
+type CompiledColumn = {
+  node: FormulaNode | null;
+  columns: Map<string, number>;
+};
+
+// Each computed column sees the columns to its left
+function compileColumns(sheet: ParsedSheet): CompiledColumn[] {
+  const computed = sheet.computed ?? [];
+  const start = sheet.headers.length - computed.length;
+  return computed.map((column, i) => {
+    const available = sheet.headers.slice(0, start + i);
+    try {
+      const node = parseFormula(column.expression);
+      const columns = new Map<string, number>();
+      formulaColumns(node).forEach((name) => {
+        const index = findColumn(available, name);
+        if (index >= 0) columns.set(name, index);
+      });
+      return { node, columns };
+    } catch {
+      return { node: null, columns: new Map() };
+    }
+  });
+}
+
+function computeRow(
+  row: CellValue[],
+  start: number,
+  compiled: CompiledColumn[]
+): CellValue[] {
+  const next = row.slice(0, start);
+  compiled.forEach(({ node, columns }) => {
+    if (!node) {
+      next.push("#VALUE!");
+      return;
+    }
+    try {
+      next.push(toCellValue(evaluate(node, next, columns)));
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      next.push(err.code);
+    }
+  });
+  return next;
+}
+
+/** Index of the first computed column (the column count when there are none). */
+export function computedStart(sheet: ParsedSheet): number {
+  return sheet.headers.length - (sheet.computed?.length ?? 0);
+}
+
+/** Expression of each column, null for columns that aren't computed. */
+export function columnExpressions(sheet: ParsedSheet): (string | null)[] {
+  const start = computedStart(sheet);
+  return sheet.headers.map((_, i) =>
+    i < start ? null : sheet.computed![i - start].expression
+  );
+}
+
+/** Recalculates computed values, for every row or just one after an edit. */
+export function recomputeSheet(sheet: ParsedSheet, onlyRow?: number) {
+  if (!sheet.computed?.length) return sheet;
+  const start = computedStart(sheet);
+  const compiled = compileColumns(sheet);
+  if (onlyRow !== undefined) {
+    const rows = sheet.rows.slice();
+    rows[onlyRow] = computeRow(rows[onlyRow], start, compiled);
+    return { ...sheet, rows };
+  }
+  return {
+    ...sheet,
+    rows: sheet.rows.map((row) => computeRow(row, start, compiled))
+  };
+}
+
+/**
+ * Replaces the sheet's computed columns (pass [] to strip them) and fills in
+ * their values.
+ */
+export function setComputedColumns(
+  sheet: ParsedSheet,
+  computed: ComputedColumn[]
+): ParsedSheet {
+  const start = computedStart(sheet);
+  const base: ParsedSheet = {
+    ...sheet,
+    headers: [...sheet.headers.slice(0, start), ...computed.map((c) => c.name)],
+    rows: sheet.rows.map((row) => row.slice(0, start)),
+    columnFormats: sheet.columnFormats && [
+      ...sheet.columnFormats.slice(0, start),
+      ...computed.map(() => null)
+    ],
+    computed: computed.length ? computed : undefined
+  };
+  return recomputeSheet(base);
+}
+
+/**
+ * Values of the last of `computed` for the first rows, for a live preview
+ * while a column is being written.
+ */
+export function previewFormula(
+  sheet: ParsedSheet,
+  computed: ComputedColumn[],
+  count: number
+): CellValue[] {
+  const preview = setComputedColumns(
+    { ...sheet, rows: sheet.rows.slice(0, count) },
+    computed
+  );
+  return preview.rows.map((row) => row[row.length - 1]);
+}
@@ -0,0 +1,99 @@
+import type { CellValue } from "./types";
+import { isEmptyCell } from "./values";
+import {
+  accumulate,
+  Aggregation,
+  createAccumulator,
+  finalize
+} from "./aggregate";
+
+// Aggregations offered in the table's group rows and footer
+export const TABLE_AGGREGATIONS: { value: Aggregation; label: string }[] = [
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Avg" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+  { value: "count", label: "Count" }
+];
+
+// Drag payload of a table header dropped on the group-by bar
+export const COLUMN_DRAG_TYPE = "application/x-column-index";
+
+// Aggregation chosen per column index
+export type ColumnAggregates = Record<number, Aggregation>;
+
+export type GroupItem = {
+  kind: "group";
+  // Path of group values from the top, unique across the table
+  id: string;
+  depth: number;
+  column: number;
+  value: CellValue;
+  count: number;
+  aggregates: Record<number, number | null>;
+};
+
+export type TableItem = GroupItem | { kind: "row"; row: CellValue[] };
+
+const KEY_SEPARATOR = "\u0000";
+
+/** Aggregate of each chosen column over the rows. */
+export function aggregateRows(
+  rows: CellValue[][],
+  aggregates: ColumnAggregates
+): Record<number, number | null> {
+  const result: Record<number, number | null> = {};
+  Object.entries(aggregates).forEach(([key, aggregation]) => {
+    const column = Number(key);
+    const acc = createAccumulator();
+    for (const row of rows) accumulate(acc, row[column]);
+    result[column] = finalize(acc, aggregation);
+  });
+  return result;
+}
+
+/**
+ * Flattens rows into group header rows and data rows for the grid. Groups
+ * keep the order in which their first row appears, so the table's sort
+ * decides which group comes first; rows of a collapsed group are left out.
+ */
+export function groupTableRows(
+  rows: CellValue[][],
+  groupBy: number[],
+  aggregates: ColumnAggregates,
+  collapsed: Set<string>
+): TableItem[] {
+  const items: TableItem[] = [];
+
+  function addLevel(levelRows: CellValue[][], depth: number, parent: string) {
+    if (depth === groupBy.length) {
+      for (const row of levelRows) items.push({ kind: "row", row });
+      return;
+    }
+    const column = groupBy[depth];
+    const buckets = new Map<string, CellValue[][]>();
+    for (const row of levelRows) {
+      const value = row[column];
+      const key = isEmptyCell(value) ? "" : String(value);
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(row);
+      else buckets.set(key, [row]);
+    }
+    buckets.forEach((bucket, key) => {
+      const id = `${parent}${KEY_SEPARATOR}${key}`;
+      items.push({
+        kind: "group",
+        id,
+        depth,
+        column,
+        value: bucket[0][column] ?? null,
+        count: bucket.length,
+        aggregates: aggregateRows(bucket, aggregates)
+      });
+      if (!collapsed.has(id)) addLevel(bucket, depth + 1, id);
+    });
+  }
+
+  addLevel(rows, 0, "");
+  return items;
+}
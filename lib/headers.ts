@@ -0,0 +1,213 @@
+import type { CellDetail, CellValue, HeaderSource, ParsedSheet } from "./types";
+import { isEmptyCell, toNumber } from "./values";
+import { cellKey } from "./edits";
+
+// Header rows are looked for this far down the sheet
+const HEADER_SCAN_ROWS = 30;
+export const MAX_HEADER_DEPTH = 3;
+
+function filledCount(row: CellValue[] | undefined) {
+  if (!row) return 0;
+  let n = 0;
+  for (const cell of row) if (!isEmptyCell(cell)) n++;
+  return n;
+}
+
+// Labels are text; a row with numbers in it is data
+function isLabelRow(row: CellValue[] | undefined) {
+  if (!row || !filledCount(row)) return false;
+  return row.every(
+    (cell) =>
+      isEmptyCell(cell) ||
+      (typeof cell === "string" && Number.isNaN(toNumber(cell)))
+  );
+}
+
+/**
+ * Finds the header row: the first row that is filled about as widely as the
+ * data below it and holds only text labels. Title rows ("Sales report",
+ * one filled cell) and blank leading rows are skipped. Following label rows
+ * that fill in gaps of the row above (a two-level "Q1 / Jan" header) extend
+ * the header's depth.
+ */
+export function detectHeaderRow(grid: CellValue[][]): {
+  row: number;
+  depth: number;
+} {
+  const scan = grid.slice(0, HEADER_SCAN_ROWS);
+  const widest = Math.max(0, ...scan.map(filledCount));
+  if (!widest) return { row: 0, depth: 1 };
+
+  let row = scan.findIndex(
+    (r) => isLabelRow(r) && filledCount(r) >= Math.max(2, widest * 0.5)
+  );
+  if (row < 0) {
+    // No text-only row: fall back to the first well-filled one
+    row = scan.findIndex((r) => filledCount(r) >= widest * 0.5);
+  }
+
+  let depth = 1;
+  while (depth < MAX_HEADER_DEPTH) {
+    const above = grid[row + depth - 1];
+    const next = grid[row + depth];
+    const after = grid[row + depth + 1];
+    // A sub-header row is all labels, fills more columns than the row above
+    // (parents span several children) and is followed by real data
+    const sparser = filledCount(above) < filledCount(next) || hasRepeats(above);
+    if (!isLabelRow(next) || !sparser || !after || isLabelRow(after)) break;
+    depth++;
+  }
+
+  return { row, depth };
+}
+
+// Expanded merges repeat a parent label across its columns
+function hasRepeats(row: CellValue[] | undefined) {
+  if (!row) return false;
+  for (let i = 1; i < row.length; i++) {
+    if (!isEmptyCell(row[i]) && row[i] === row[i - 1]) return true;
+  }
+  return false;
+}
+
+/** Makes every header non-blank and unique: "Column 3", "Amount (2)". */
+export function dedupeHeaders(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((raw, i) => {
+    const base = raw.trim() || `Column ${i + 1}`;
+    const count = (seen.get(base.toLowerCase()) ?? 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+/**
+ * Flattens header rows into one name per column, "Parent / Child". Parent
+ * labels are carried right across the blank cells of their group, and a
+ * label repeated down the rows (vertically merged) is only used once.
+ */
+export function flattenHeaderRows(
+  headerRows: CellValue[][],
+  width: number
+): string[] {
+  const text = (value: CellValue | undefined) =>
+    isEmptyCell(value) ? "" : String(value).trim();
+
+  const filled = headerRows.map((row, depth) => {
+    const labels = Array.from({ length: width }, (_, c) => text(row[c]));
+    if (depth === headerRows.length - 1) return labels;
+    // Carry a parent label right until the next one
+    for (let c = 1; c < width; c++) {
+      if (
+        !labels[c] &&
+        labels[c - 1] &&
+        text(headerRows[headerRows.length - 1][c])
+      ) {
+        labels[c] = labels[c - 1];
+      }
+    }
+    return labels;
+  });
+
+  const names = Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    for (const labels of filled) {
+      const label = labels[c];
+      if (label && label !== parts[parts.length - 1]) parts.push(label);
+    }
+    return parts.join(" / ");
+  });
+  return dedupeHeaders(names);
+}
+
+/**
+ * Splits a raw sheet grid at the given header row into headers and data
+ * rows. Blank data rows are dropped; every row is padded to the widest one
+ * so no values are lost to a short header. `gridRows` holds the grid index
+ * each data row came from.
+ */
+export function splitAtHeader(
+  grid: CellValue[][],
+  headerRow: number,
+  depth: number,
+  detected: { row: number; depth: number },
+  firstRow: number
+): {
+  headers: string[];
+  rows: CellValue[][];
+  gridRows: number[];
+  headerSource: HeaderSource;
+} {
+  const dataStart = Math.min(grid.length, headerRow + depth);
+  let width = 0;
+  for (const row of grid) width = Math.max(width, row.length);
+  const headers = flattenHeaderRows(grid.slice(headerRow, dataStart), width);
+
+  const rows: CellValue[][] = [];
+  const gridRows: number[] = [];
+  for (let r = dataStart; r < grid.length; r++) {
+    if (!filledCount(grid[r])) continue;
+    rows.push(headers.map((_, c) => grid[r][c] ?? null));
+    gridRows.push(r);
+  }
+
+  return {
+    headers,
+    rows,
+    gridRows,
+    headerSource: {
+      rows: grid.slice(0, dataStart),
+      headerRow,
+      depth,
+      detectedRow: detected.row,
+      detectedDepth: detected.depth,
+      firstRow
+    }
+  };
+}
+
+/**
+ * Re-reads a sheet with a different header row/depth (0-based index into
+ * the sheet's rows as uploaded). Current data rows, including edits, are
+ * kept; column formats follow their columns.
+ */
+export function reheaderSheet(
+  sheet: ParsedSheet,
+  headerRow: number,
+  depth: number
+): ParsedSheet {
+  const source = sheet.headerSource;
+  if (!source) return sheet;
+  const grid = [...source.rows, ...sheet.rows];
+  const { headers, rows, gridRows, headerSource } = splitAtHeader(
+    grid,
+    headerRow,
+    depth,
+    { row: source.detectedRow, depth: source.detectedDepth },
+    source.firstRow
+  );
+
+  // Cell details follow their data rows; rows that were headers have none
+  let cells: Record<string, CellDetail> | undefined;
+  if (sheet.cells) {
+    const moved: Record<string, CellDetail> = {};
+    gridRows.forEach((g, row) => {
+      const old = g - source.rows.length;
+      if (old < 0) return;
+      headers.forEach((_, c) => {
+        const detail = sheet.cells![cellKey(old, c)];
+        if (detail) moved[cellKey(row, c)] = detail;
+      });
+    });
+    cells = moved;
+  }
+
+  return {
+    ...sheet,
+    headers,
+    rows,
+    columnFormats: headers.map((_, c) => sheet.columnFormats?.[c] ?? null),
+    headerSource,
+    cells
+  };
+}
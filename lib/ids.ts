@@ -0,0 +1,11 @@
+// Tagged with this page load so ids saved by earlier loads (restored views,
+// shared links) never clash with new ones
+const loadTag =
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+let counter = 0;
+
+/** Id unique across page loads, e.g. for list items persisted in views. */
+export function createId(prefix: string): string {
+  counter += 1;
+  return `${prefix}${loadTag}-${counter}`;
+}
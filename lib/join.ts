@@ -0,0 +1,219 @@
+import type { CellValue, ColumnFormat, ParsedSheet } from "./types";
+import { isEmptyCell, toNumber } from "./values";
+import { dedupeHeaders } from "./headers";
+import { headersMatch } from "./viewState";
+
+export type JoinKind = "inner" | "left" | "full" | "union";
+
+export const JOIN_KINDS: { value: JoinKind; label: string }[] = [
+  { value: "inner", label: "Inner join (matching rows only)" },
+  { value: "left", label: "Left join (all left rows)" },
+  { value: "full", label: "Full outer join (all rows)" },
+  { value: "union", label: "Append / union (same headers)" }
+];
+
+// Column of the left sheet matched against a column of the right one
+export type JoinKey = { left: number; right: number };
+
+export type JoinReport = {
+  matchedLeft: number;
+  matchedRight: number;
+  unmatchedLeft: number;
+  unmatchedRight: number;
+  // A few unmatched key values from each side, to spot typos and gaps
+  unmatchedLeftKeys: string[];
+  unmatchedRightKeys: string[];
+};
+
+const SAMPLE_KEYS = 5;
+const KEY_SEPARATOR = "\u0000";
+
+// "1", 1 and " 1.0 " match, as do "ACME" and "acme"
+function keyPart(value: CellValue | undefined): string | null {
+  if (isEmptyCell(value)) return null;
+  const n = toNumber(value);
+  if (!Number.isNaN(n)) return String(n);
+  return String(value).trim().toLowerCase();
+}
+
+/** Normalised key of a row's key columns; null when any part is blank. */
+export function rowKey(row: CellValue[], columns: number[]): string | null {
+  const parts: string[] = [];
+  for (const c of columns) {
+    const part = keyPart(row[c]);
+    if (part === null) return null;
+    parts.push(part);
+  }
+  return parts.join(KEY_SEPARATOR);
+}
+
+function keyLabel(row: CellValue[], columns: number[]) {
+  return columns
+    .map((c) => (isEmptyCell(row[c]) ? "(blank)" : String(row[c])))
+    .join(" / ");
+}
+
+function indexRows(rows: CellValue[][], columns: number[]) {
+  const index = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const key = rowKey(row, columns);
+    if (key === null) return;
+    const bucket = index.get(key);
+    if (bucket) bucket.push(i);
+    else index.set(key, [i]);
+  });
+  return index;
+}
+
+/** Which rows on each side find a partner, without building the result. */
+export function matchReport(
+  left: ParsedSheet,
+  right: ParsedSheet,
+  keys: JoinKey[]
+): JoinReport {
+  const leftColumns = keys.map((k) => k.left);
+  const rightColumns = keys.map((k) => k.right);
+  const rightIndex = indexRows(right.rows, rightColumns);
+  const leftKeys = new Set<string>();
+
+  const report: JoinReport = {
+    matchedLeft: 0,
+    matchedRight: 0,
+    unmatchedLeft: 0,
+    unmatchedRight: 0,
+    unmatchedLeftKeys: [],
+    unmatchedRightKeys: []
+  };
+
+  left.rows.forEach((row) => {
+    const key = rowKey(row, leftColumns);
+    if (key !== null) leftKeys.add(key);
+    if (key !== null && rightIndex.has(key)) {
+      report.matchedLeft++;
+      return;
+    }
+    report.unmatchedLeft++;
+    if (report.unmatchedLeftKeys.length < SAMPLE_KEYS) {
+      report.unmatchedLeftKeys.push(keyLabel(row, leftColumns));
+    }
+  });
+  right.rows.forEach((row) => {
+    const key = rowKey(row, rightColumns);
+    if (key !== null && leftKeys.has(key)) {
+      report.matchedRight++;
+      return;
+    }
+    report.unmatchedRight++;
+    if (report.unmatchedRightKeys.length < SAMPLE_KEYS) {
+      report.unmatchedRightKeys.push(keyLabel(row, rightColumns));
+    }
+  });
+  return report;
+}
+
+/**
+ * Joins two sheets on one or more key columns. The result has every left
+ * column, then the right sheet's non-key columns; names found on both sides
+ * are prefixed with their sheet's name ("Orders.Name", "Customers.Name").
+ * In a full outer join, right-only rows fill the left key columns with
+ * their own key values.
+ */
+export function joinSheets(
+  left: ParsedSheet,
+  right: ParsedSheet,
+  kind: Exclude<JoinKind, "union">,
+  keys: JoinKey[]
+): ParsedSheet {
+  const leftColumns = keys.map((k) => k.left);
+  const rightColumns = keys.map((k) => k.right);
+  const rightKeySet = new Set(rightColumns);
+  const rightKept = right.headers
+    .map((_, c) => c)
+    .filter((c) => !rightKeySet.has(c));
+
+  const leftNames = new Set(left.headers.map((h) => h.toLowerCase()));
+  const rightNames = new Set(
+    rightKept.map((c) => right.headers[c].toLowerCase())
+  );
+  const headers = dedupeHeaders([
+    ...left.headers.map((h) =>
+      rightNames.has(h.toLowerCase()) ? `${left.name}.${h}` : h
+    ),
+    ...rightKept.map((c) => {
+      const h = right.headers[c];
+      return leftNames.has(h.toLowerCase()) ? `${right.name}.${h}` : h;
+    })
+  ]);
+  const columnFormats: ColumnFormat[] = [
+    ...left.headers.map((_, c) => left.columnFormats?.[c] ?? null),
+    ...rightKept.map((c) => right.columnFormats?.[c] ?? null)
+  ];
+
+  const rightIndex = indexRows(right.rows, rightColumns);
+  const usedRight = new Set<number>();
+  const rows: CellValue[][] = [];
+  const blankLeft = left.headers.map(() => null);
+  const blankRight = rightKept.map(() => null);
+
+  left.rows.forEach((row) => {
+    const key = rowKey(row, leftColumns);
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (!matches) {
+      if (kind !== "inner") rows.push([...row, ...blankRight]);
+      return;
+    }
+    matches.forEach((r) => {
+      usedRight.add(r);
+      rows.push([...row, ...rightKept.map((c) => right.rows[r][c] ?? null)]);
+    });
+  });
+
+  if (kind === "full") {
+    right.rows.forEach((row, r) => {
+      if (usedRight.has(r)) return;
+      const leftPart: CellValue[] = blankLeft.slice();
+      keys.forEach((k) => {
+        leftPart[k.left] = row[k.right] ?? null;
+      });
+      rows.push([...leftPart, ...rightKept.map((c) => row[c] ?? null)]);
+    });
+  }
+
+  return {
+    name: `${left.name} ⋈ ${right.name}`,
+    headers,
+    rows,
+    columnFormats
+  };
+}
+
+/**
+ * Stacks the rows of two sheets with the same headers (in any order, taken
+ * from the first sheet), adding a column that says where each row came from.
+ * Returns null when the headers differ.
+ */
+export function appendSheets(
+  first: ParsedSheet,
+  second: ParsedSheet
+): ParsedSheet | null {
+  if (!headersMatch(first, second)) return null;
+  const order = first.headers.map((h) => second.headers.indexOf(h));
+  const [sourceHeader] = dedupeHeaders([...first.headers, "Source"]).slice(
+    first.headers.length
+  );
+  return {
+    name: `${first.name} + ${second.name}`,
+    headers: [...first.headers, sourceHeader],
+    rows: [
+      ...first.rows.map((row) => [...row, first.name]),
+      ...second.rows.map((row) => [
+        ...order.map((c) => row[c] ?? null),
+        second.name
+      ])
+    ],
+    columnFormats: [
+      ...first.headers.map((_, c) => first.columnFormats?.[c] ?? null),
+      null
+    ]
+  };
+}
@@ -0,0 +1,194 @@
+import * as XLSX from "xlsx";
+import type { CellDetail, CellValue, ColumnFormat, ParsedSheet } from "./types";
+import { excelSerialToTimestamp, formatIsoDate } from "./values";
+import { detectHeaderRow, splitAtHeader } from "./headers";
+import { cellKey } from "./edits";
+import type { CsvOptions } from "./csv";
+
+export type ParseProgress =
+  | { stage: "reading"; loaded: number; total: number }
+  | { stage: "parsing" }
+  | { stage: "sheets"; done: number; total: number; sheetName: string };
+
+// Messages exchanged with lib/workbook.worker.ts. Text files carry the
+// options chosen in the import dialog and become a single sheet.
+export type WorkbookWorkerRequest = {
+  buffer: ArrayBuffer;
+  csv?: { sheetName: string; options: CsvOptions };
+};
+
+export type WorkbookWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | { type: "done"; sheets: ParsedSheet[] }
+  | { type: "error"; message: string };
+
+const CURRENCY_FORMAT = /[$€£¥₹]|\[\$/;
+
+function cellFormat(cell: XLSX.CellObject): ColumnFormat {
+  if (cell.t !== "n") return null;
+  const z = typeof cell.z === "string" ? cell.z : "";
+  if (z && XLSX.SSF.is_date(z)) return "date";
+  // CSV cells carry no format string, only the original text in `w`
+  const text = z || cell.w || "";
+  if (text.includes("%")) return "percent";
+  if (CURRENCY_FORMAT.test(text)) return "currency";
+  return null;
+}
+
+/**
+ * Rewrites date-formatted serial numbers as ISO date text (so they read and
+ * sort as dates rather than as 45000-ish numbers) and returns the dominant
+ * number format of each column.
+ */
+function normalizeCells(worksheet: XLSX.WorkSheet): ColumnFormat[] {
+  if (!worksheet["!ref"]) return [];
+  const range = XLSX.utils.decode_range(worksheet["!ref"]);
+  const width = range.e.c - range.s.c + 1;
+  const numericCounts = new Array(width).fill(0);
+  const formatCounts = Array.from(
+    { length: width },
+    () => new Map<ColumnFormat, number>()
+  );
+
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith("!")) continue;
+    const cell = worksheet[address] as XLSX.CellObject;
+    if (cell.t !== "n") continue;
+
+    const col = XLSX.utils.decode_cell(address).c - range.s.c;
+    numericCounts[col]++;
+    const format = cellFormat(cell);
+    if (!format) continue;
+    formatCounts[col].set(format, (formatCounts[col].get(format) ?? 0) + 1);
+
+    if (format === "date") {
+      cell.t = "s";
+      cell.v = formatIsoDate(excelSerialToTimestamp(cell.v as number));
+    }
+  }
+
+  return formatCounts.map((counts, col) => {
+    for (const [format, count] of Array.from(counts.entries())) {
+      if (count > numericCounts[col] / 2) return format;
+    }
+    return null;
+  });
+}
+
+/**
+ * Copies the value of each merged range's top-left cell into the rest of the
+ * range, so a parent header merged across its columns labels all of them.
+ */
+function expandMerges(worksheet: XLSX.WorkSheet) {
+  for (const merge of worksheet["!merges"] ?? []) {
+    const origin = worksheet[XLSX.utils.encode_cell(merge.s)];
+    if (!origin) continue;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r === merge.s.r && c === merge.s.c) continue;
+        worksheet[XLSX.utils.encode_cell({ r, c })] = { ...origin };
+      }
+    }
+  }
+}
+
+/**
+ * Excel's formatted text, formulas and hyperlinks of the data cells, keyed
+ * by position in the parsed rows. Plain cells, whose text is just their
+ * value, are left out.
+ */
+function collectCellDetails(
+  worksheet: XLSX.WorkSheet,
+  gridRows: number[],
+  width: number
+): Record<string, CellDetail> {
+  const details: Record<string, CellDetail> = {};
+  if (!worksheet["!ref"]) return details;
+  const range = XLSX.utils.decode_range(worksheet["!ref"]);
+  const dataRows = new Map(gridRows.map((g, row) => [g, row]));
+
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith("!")) continue;
+    const cell = worksheet[address] as XLSX.CellObject;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const row = dataRows.get(r - range.s.r);
+    const column = c - range.s.c;
+    if (row === undefined || column >= width) continue;
+
+    const detail: CellDetail = {};
+    if (cell.w !== undefined && cell.w !== String(cell.v ?? "")) {
+      detail.text = cell.w;
+    }
+    if (cell.f) detail.formula = `=${cell.f}`;
+    if (cell.l?.Target) detail.link = cell.l.Target;
+    if (detail.text !== undefined || detail.formula || detail.link) {
+      details[cellKey(row, column)] = detail;
+    }
+  }
+  return details;
+}
+
+export function parseWorksheet(
+  name: string,
+  worksheet: XLSX.WorkSheet
+): ParsedSheet {
+  expandMerges(worksheet);
+  const formats = normalizeCells(worksheet);
+  // Blank rows are kept so header row numbers match the sheet's
+  const grid: CellValue[][] = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    blankrows: true,
+    defval: null
+  });
+  const firstRow = worksheet["!ref"]
+    ? XLSX.utils.decode_range(worksheet["!ref"]).s.r + 1
+    : 1;
+
+  const detected = detectHeaderRow(grid);
+  const { headers, rows, gridRows, headerSource } = splitAtHeader(
+    grid,
+    detected.row,
+    detected.depth,
+    detected,
+    firstRow
+  );
+
+  return {
+    name,
+    headers,
+    rows,
+    columnFormats: headers.map((_, index) => formats[index] ?? null),
+    headerSource,
+    cells: collectCellDetails(worksheet, gridRows, headers.length)
+  };
+}
+
+/** Human-readable label for the header progress indicator. */
+export function describeProgress(progress: ParseProgress): string {
+  switch (progress.stage) {
+    case "reading":
+      return progress.total
+        ? `Reading file… ${Math.round(
+            (progress.loaded / progress.total) * 100
+          )}%`
+        : "Reading file…";
+    case "parsing":
+      return "Parsing workbook…";
+    case "sheets":
+      return `Sheet ${progress.done}/${progress.total} · ${progress.sheetName}`;
+  }
+}
+
+/** Percentage (0–100) of the upload that has completed, for the progress bar. */
+export function progressPercent(progress: ParseProgress): number {
+  switch (progress.stage) {
+    case "reading":
+      return progress.total
+        ? Math.round((progress.loaded / progress.total) * 40)
+        : 0;
+    case "parsing":
+      return 40;
+    case "sheets":
+      return 40 + Math.round((progress.done / progress.total) * 60);
+  }
+}
@@ -0,0 +1,247 @@
+import type { CellValue, ParsedSheet } from "./types";
+import { isEmptyCell } from "./values";
+import {
+  Accumulator,
+  accumulate,
+  Aggregation,
+  AGGREGATIONS,
+  createAccumulator,
+  finalize
+} from "./aggregate";
+
+export type PivotValueField = {
+  column: number;
+  aggregation: Aggregation;
+};
+
+export type PivotConfig = {
+  rowFields: number[];
+  columnFields: number[];
+  values: PivotValueField[];
+};
+
+export const emptyPivotConfig: PivotConfig = {
+  rowFields: [],
+  columnFields: [],
+  values: []
+};
+
+export type PivotNode = {
+  // Path of row-field values from the root, joined for use as a stable id
+  id: string;
+  label: string;
+  depth: number;
+  children: PivotNode[];
+  // Accumulators per column key, one per value field
+  cells: Map<string, Accumulator[]>;
+  total: Accumulator[];
+};
+
+export type PivotResult = {
+  root: PivotNode;
+  columnKeys: string[];
+};
+
+const KEY_SEPARATOR = "\u0000";
+
+function cellLabel(value: CellValue | undefined) {
+  return isEmptyCell(value) ? "(blank)" : String(value);
+}
+
+function createNode(id: string, label: string, depth: number): PivotNode {
+  return { id, label, depth, children: [], cells: new Map(), total: [] };
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+/**
+ * Builds the pivot tree. Every row is added to its leaf node and to each
+ * ancestor on the way down, so subtotals and the grand total (the root)
+ * come out of the same pass.
+ */
+export function buildPivot(
+  rows: CellValue[][],
+  config: PivotConfig
+): PivotResult {
+  const root = createNode("", "Grand Total", 0);
+  const childIndex = new Map<PivotNode, Map<string, PivotNode>>();
+  const columnKeySet = new Set<string>();
+  const valueCount = config.values.length;
+
+  const add = (node: PivotNode, columnKey: string, row: CellValue[]) => {
+    let cell = node.cells.get(columnKey);
+    if (!cell) {
+      cell = config.values.map(createAccumulator);
+      node.cells.set(columnKey, cell);
+    }
+    if (!node.total.length) node.total = config.values.map(createAccumulator);
+    for (let i = 0; i < valueCount; i++) {
+      const value = row[config.values[i].column];
+      accumulate(cell[i], value);
+      accumulate(node.total[i], value);
+    }
+  };
+
+  for (const row of rows) {
+    const columnKey = config.columnFields
+      .map((c) => cellLabel(row[c]))
+      .join(KEY_SEPARATOR);
+    columnKeySet.add(columnKey);
+
+    let node = root;
+    add(node, columnKey, row);
+
+    for (const field of config.rowFields) {
+      const label = cellLabel(row[field]);
+      let children = childIndex.get(node);
+      if (!children) {
+        children = new Map();
+        childIndex.set(node, children);
+      }
+      let child = children.get(label);
+      if (!child) {
+        child = createNode(
+          node.id + KEY_SEPARATOR + label,
+          label,
+          node.depth + 1
+        );
+        children.set(label, child);
+        node.children.push(child);
+      }
+      node = child;
+      add(node, columnKey, row);
+    }
+  }
+
+  const sortTree = (node: PivotNode) => {
+    node.children.sort((a, b) => collator.compare(a.label, b.label));
+    node.children.forEach(sortTree);
+  };
+  sortTree(root);
+
+  return {
+    root,
+    columnKeys: Array.from(columnKeySet).sort(collator.compare)
+  };
+}
+
+export function columnKeyLabel(columnKey: string): string {
+  return columnKey.split(KEY_SEPARATOR).join(" / ");
+}
+
+/** Aggregated values for a node: one per column key × value field. */
+export function pivotCells(
+  node: PivotNode,
+  result: PivotResult,
+  config: PivotConfig
+): (number | null)[] {
+  const out: (number | null)[] = [];
+  for (const key of result.columnKeys) {
+    const cell = node.cells.get(key);
+    config.values.forEach((v, i) =>
+      out.push(finalize(cell?.[i], v.aggregation))
+    );
+  }
+  return out;
+}
+
+/** Row totals across all column keys, one per value field. */
+export function pivotTotals(
+  node: PivotNode,
+  config: PivotConfig
+): (number | null)[] {
+  return config.values.map((v, i) => finalize(node.total[i], v.aggregation));
+}
+
+/** Nodes to display, depth-first, skipping children of collapsed nodes. */
+export function visiblePivotNodes(
+  root: PivotNode,
+  collapsed: Set<string>
+): PivotNode[] {
+  const out: PivotNode[] = [];
+  const walk = (node: PivotNode) => {
+    for (const child of node.children) {
+      out.push(child);
+      if (!collapsed.has(child.id)) walk(child);
+    }
+  };
+  walk(root);
+  return out;
+}
+
+export function valueFieldLabel(field: PivotValueField, headers: string[]) {
+  const header = headers[field.column] || `Column ${field.column + 1}`;
+  const agg = AGGREGATIONS.find((a) => a.value === field.aggregation);
+  return `${agg?.label ?? field.aggregation} of ${header}`;
+}
+
+/**
+ * Flattens the pivot (fully expanded) into a regular sheet: one column per
+ * row field, then the aggregated value columns. Subtotal rows are labelled
+ * "<value> Total" and the last row is the grand total.
+ */
+export function pivotToSheet(
+  name: string,
+  result: PivotResult,
+  config: PivotConfig,
+  headers: string[]
+): ParsedSheet {
+  const hasColumnFields = config.columnFields.length > 0;
+  const rowFieldHeaders = config.rowFields.map(
+    (c) => headers[c] || `Column ${c + 1}`
+  );
+  const valueHeaders: string[] = [];
+  for (const key of result.columnKeys) {
+    for (const v of config.values) {
+      const label = valueFieldLabel(v, headers);
+      valueHeaders.push(
+        hasColumnFields ? `${columnKeyLabel(key)} · ${label}` : label
+      );
+    }
+  }
+  if (hasColumnFields) {
+    for (const v of config.values) {
+      valueHeaders.push(`Total · ${valueFieldLabel(v, headers)}`);
+    }
+  }
+
+  const valuesFor = (node: PivotNode) =>
+    hasColumnFields
+      ? [...pivotCells(node, result, config), ...pivotTotals(node, config)]
+      : pivotCells(node, result, config);
+
+  const rows: CellValue[][] = [];
+  const walk = (node: PivotNode, path: string[]) => {
+    for (const child of node.children) {
+      const childPath = [...path, child.label];
+      const isLeaf = child.children.length === 0;
+      if (!isLeaf) walk(child, childPath);
+      const labels = rowFieldHeaders.map((_, i) =>
+        i < childPath.length
+          ? i === childPath.length - 1 && !isLeaf
+            ? `${childPath[i]} Total`
+            : childPath[i]
+          : ""
+      );
+      rows.push([...labels, ...valuesFor(child)]);
+    }
+  };
+  walk(result.root, []);
+
+  const grandLabels = rowFieldHeaders.map((_, i) =>
+    i === 0 ? "Grand Total" : ""
+  );
+  rows.push([
+    ...(grandLabels.length ? grandLabels : ["Grand Total"]),
+    ...valuesFor(result.root)
+  ]);
+
+  return {
+    name,
+    headers: [
+      ...(rowFieldHeaders.length ? rowFieldHeaders : [""]),
+      ...valueHeaders
+    ],
+    rows
+  };
+}
@@ -0,0 +1,134 @@
+import type { CellValue } from "./types";
+import type { ColumnDetection } from "./columnTypes";
+import { toNumber, toTimestamp } from "./values";
+import { quantile } from "./aggregate";
+
+export type NumericProfile = {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  percentiles: { p: number; value: number }[];
+  // Equal-width bin counts for the sparkline
+  histogram: number[];
+};
+
+export type DateProfile = {
+  min: number;
+  max: number;
+  spanDays: number;
+};
+
+export type ColumnProfile = ColumnDetection & {
+  rowCount: number;
+  nullCount: number;
+  // Present but blank ("" or whitespace only)
+  blankCount: number;
+  topValues: { value: string; count: number }[];
+  numeric: NumericProfile | null;
+  date: DateProfile | null;
+};
+
+const PERCENTILES = [5, 25, 75, 95];
+const HISTOGRAM_BINS = 20;
+const TOP_VALUES = 5;
+
+function numericProfile(values: number[]): NumericProfile | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const min = sorted[0];
+  const max = sorted[n - 1];
+
+  let sum = 0;
+  for (const v of sorted) sum += v;
+  const mean = sum / n;
+  let squares = 0;
+  for (const v of sorted) squares += (v - mean) ** 2;
+  const stddev = n > 1 ? Math.sqrt(squares / (n - 1)) : 0;
+
+  const histogram = new Array(HISTOGRAM_BINS).fill(0);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  for (const v of sorted) {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))]++;
+  }
+
+  return {
+    min,
+    max,
+    mean,
+    median: quantile(sorted, 0.5),
+    stddev,
+    percentiles: PERCENTILES.map((p) => ({
+      p,
+      value: quantile(sorted, p / 100)
+    })),
+    histogram
+  };
+}
+
+/**
+ * Full data-quality profile of one column. The type detection is passed in
+ * so the profile reports the same type (and confidence) the rest of the UI
+ * uses.
+ */
+export function profileColumn(
+  rows: CellValue[][],
+  colIdx: number,
+  detection: ColumnDetection
+): ColumnProfile {
+  let nullCount = 0;
+  let blankCount = 0;
+  const counts = new Map<string, number>();
+  const numbers: number[] = [];
+  let dateMin = Infinity;
+  let dateMax = -Infinity;
+
+  for (const row of rows) {
+    const value = row[colIdx];
+    if (value === null || value === undefined) {
+      nullCount++;
+      continue;
+    }
+    const s = String(value);
+    if (s.trim() === "") {
+      blankCount++;
+      continue;
+    }
+    counts.set(s, (counts.get(s) ?? 0) + 1);
+
+    if (detection.type === "numeric") {
+      const n = toNumber(value);
+      if (!Number.isNaN(n)) numbers.push(n);
+    } else if (detection.type === "date") {
+      const t = toTimestamp(value);
+      if (!Number.isNaN(t)) {
+        if (t < dateMin) dateMin = t;
+        if (t > dateMax) dateMax = t;
+      }
+    }
+  }
+
+  const topValues = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+
+  return {
+    ...detection,
+    rowCount: rows.length,
+    nullCount,
+    blankCount,
+    topValues,
+    numeric: detection.type === "numeric" ? numericProfile(numbers) : null,
+    date:
+      detection.type === "date" && dateMin <= dateMax
+        ? {
+            min: dateMin,
+            max: dateMax,
+            spanDays: Math.round((dateMax - dateMin) / (24 * 60 * 60 * 1000))
+          }
+        : null
+  };
+}
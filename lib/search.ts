@@ -0,0 +1,395 @@
+import type { CellValue, ColumnType } from "./types";
+import {
+  formatIsoDate,
+  isEmptyCell,
+  parseDateString,
+  toNumber,
+  toTimestamp
+} from "./values";
+
+export type CompareOp = ">" | ">=" | "<" | "<=" | "=";
+
+/** One term of a search query, before its column is looked up. */
+export type SearchTerm = {
+  // Header name before the ":", or null to search every column
+  column: string | null;
+  negate: boolean;
+  kind: "text" | "regex" | "compare";
+  // Text or phrase, regex source, or the comparison operand
+  value: string;
+  op: CompareOp | null;
+  // The term as typed (lower-cased), searched as plain text when its column
+  // doesn't exist
+  raw: string;
+};
+
+export type CompiledSearch = {
+  // False when the query has no terms, so every row matches
+  active: boolean;
+  // First problem with the query (e.g. a bad regex); that term is ignored
+  error: string | null;
+  test: (row: CellValue[], texts: string[]) => boolean;
+  // Columns whose cell matches one of the (non-negated) terms
+  matchingColumns: (row: CellValue[], texts: string[]) => number[];
+  // Sorted, non-overlapping [start, end) ranges of a cell's shown text; the
+  // whole text when the cell matches but the shown text doesn't, e.g. 1234
+  // shown as "1,234.50"
+  highlight: (
+    value: CellValue,
+    text: string,
+    column: number
+  ) => [number, number][];
+};
+
+const COMPARISON = /^(>=|<=|>|<|=)(.+)$/;
+
+// Reads a quoted string starting at `start`; returns its text and end index
+function readQuoted(query: string, start: number): [string, number] {
+  const close = query.indexOf('"', start + 1);
+  return close < 0
+    ? [query.slice(start + 1), query.length]
+    : [query.slice(start + 1, close), close + 1];
+}
+
+function readWord(query: string, start: number): [string, number] {
+  let end = start;
+  while (end < query.length && !/\s/.test(query[end])) end++;
+  return [query.slice(start, end), end];
+}
+
+/**
+ * Splits a query into terms: words, "quoted phrases", /regex/, -negated
+ * terms, column:value scoping (quote names with spaces: "Order ID":42) and
+ * comparisons such as amount:>500 or date:<2024-01-01.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negate = query[i] === "-" && i + 1 < query.length;
+    if (negate) i++;
+
+    // A column prefix, when followed by a value
+    let column: string | null = null;
+    const rest = query.slice(i);
+    const prefix = /^("([^"]*)"|[^\s:"/]+):(?=\S)/.exec(rest);
+    if (prefix) {
+      column = prefix[2] ?? prefix[1];
+      i += prefix[0].length;
+    }
+
+    let kind: SearchTerm["kind"] = "text";
+    let value: string;
+    let op: CompareOp | null = null;
+    if (query[i] === '"') {
+      [value, i] = readQuoted(query, i);
+    } else if (query[i] === "/" && /\/(\s|$)/.test(query.slice(i + 1))) {
+      // The pattern runs to the first "/" that ends a word
+      const close = query.slice(i + 1).search(/\/(\s|$)/) + i + 1;
+      kind = "regex";
+      value = query.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      [value, i] = readWord(query, i);
+      const comparison = COMPARISON.exec(value);
+      if (comparison) {
+        kind = "compare";
+        op = comparison[1] as CompareOp;
+        value = comparison[2];
+      }
+    }
+    if (!value) continue;
+    terms.push({
+      column,
+      negate,
+      kind,
+      value: kind === "regex" ? value : value.toLowerCase(),
+      op,
+      raw: query.slice(start + (negate ? 1 : 0), i).toLowerCase()
+    });
+  }
+  return terms;
+}
+
+/**
+ * Returns a function giving the lower-cased search text of a row's cells,
+ * cached per row so only edited rows are read again. Date columns are also
+ * searchable in the YYYY-MM-DD form the grid shows.
+ */
+export function createSearchIndex(
+  columnTypes: ColumnType[]
+): (row: CellValue[]) => string[] {
+  const cache = new WeakMap<CellValue[], string[]>();
+  return (row) => {
+    let texts = cache.get(row);
+    if (!texts) {
+      texts = row.map((cell, c) => searchText(cell, columnTypes[c]));
+      cache.set(row, texts);
+    }
+    return texts;
+  };
+}
+
+function searchText(cell: CellValue, type: ColumnType | undefined): string {
+  if (isEmptyCell(cell)) return "";
+  const text = String(cell).toLowerCase();
+  if (type !== "date") return text;
+  const t = toTimestamp(cell);
+  return Number.isNaN(t) ? text : `${text}\n${formatIsoDate(t)}`;
+}
+
+// Typos tolerated per word in fuzzy mode, by the term's length
+const allowedTypos = (length: number) =>
+  length <= 3 ? 0 : length <= 6 ? 1 : 2;
+
+// Edit distance counting a swap of neighbouring letters as one typo, or
+// max + 1 once it is certain to exceed max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], before[j - 2] + 1);
+      }
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Words of a text with their positions
+function words(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  const word = /[a-z0-9]+/gi;
+  let match: RegExpExecArray | null;
+  while ((match = word.exec(text))) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+function fuzzyRanges(text: string, term: string): [number, number][] {
+  const typos = allowedTypos(term.length);
+  if (!typos || /\s/.test(term)) return [];
+  const lower = text.toLowerCase();
+  return words(lower).filter(
+    ([start, end]) =>
+      editDistance(lower.slice(start, end), term, typos) <= typos
+  );
+}
+
+function textRanges(text: string, term: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  const lower = text.toLowerCase();
+  for (
+    let at = lower.indexOf(term);
+    at >= 0;
+    at = lower.indexOf(term, at + term.length)
+  ) {
+    ranges.push([at, at + term.length]);
+  }
+  return ranges;
+}
+
+function regexRanges(text: string, pattern: RegExp): [number, number][] {
+  const ranges: [number, number][] = [];
+  const global = new RegExp(pattern.source, "gi");
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text))) {
+    if (!match[0].length) {
+      global.lastIndex++;
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+  return merged;
+}
+
+function compare(a: number, op: CompareOp, b: number) {
+  switch (op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case "=":
+      return a === b;
+  }
+}
+
+// A term ready to test cells: which columns it looks at and how
+type CellMatcher = {
+  negate: boolean;
+  // Null for every column
+  columns: number[] | null;
+  // Tests a cell by its value and index text
+  matches: (value: CellValue, text: string, column: number) => boolean;
+  // Ranges of the cell's shown text to highlight
+  ranges: (
+    value: CellValue,
+    text: string,
+    column: number
+  ) => [number, number][];
+};
+
+function compileTerm(
+  term: SearchTerm,
+  columns: number[] | null,
+  columnTypes: ColumnType[],
+  fuzzy: boolean
+): CellMatcher | string {
+  const { negate, value } = term;
+  if (term.kind === "regex") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(value, "i");
+    } catch {
+      return `Invalid regular expression /${value}/`;
+    }
+    return {
+      negate,
+      columns,
+      matches: (_, text) => pattern.test(text),
+      ranges: (_, text) => regexRanges(text, pattern)
+    };
+  }
+
+  if (term.kind === "compare") {
+    const op = term.op!;
+    const n = toNumber(value);
+    const t = parseDateString(value);
+    const usable = (columns ?? columnTypes.map((_, c) => c)).filter((c) =>
+      columnTypes[c] === "date"
+        ? !Number.isNaN(t)
+        : columnTypes[c] === "numeric" && !Number.isNaN(n)
+    );
+    if (!usable.length) {
+      return `${op}${value} needs a numeric or date column${
+        columns ? "" : ", e.g. amount:>500"
+      }`;
+    }
+    const test = (cell: CellValue, column: number) => {
+      const isDate = columnTypes[column] === "date";
+      const x = isDate ? toTimestamp(cell) : toNumber(cell);
+      return !Number.isNaN(x) && compare(x, op, isDate ? t : n);
+    };
+    return {
+      negate,
+      columns: usable,
+      matches: (cell, _, column) => test(cell, column),
+      ranges: (cell, text, column) =>
+        test(cell, column) ? [[0, text.length]] : []
+    };
+  }
+
+  return {
+    negate,
+    columns,
+    matches: (_, text) =>
+      text.includes(value) || (fuzzy && fuzzyRanges(text, value).length > 0),
+    ranges: (_, text) =>
+      fuzzy
+        ? [...textRanges(text, value), ...fuzzyRanges(text, value)]
+        : textRanges(text, value)
+  };
+}
+
+/**
+ * Compiles a search query against the sheet's columns. Terms must all
+ * match (negated ones must match nowhere); a column: prefix naming no
+ * column is searched as plain text. Comparisons apply to numeric and date
+ * columns. Fuzzy mode lets words differ by a typo or two.
+ */
+export function compileSearch(
+  query: string,
+  headers: string[],
+  columnTypes: ColumnType[],
+  fuzzy = false
+): CompiledSearch {
+  const names = headers.map((h, i) => (h || `Column ${i + 1}`).toLowerCase());
+  const all = names.map((_, c) => c);
+  let error: string | null = null;
+  const matchers: CellMatcher[] = [];
+
+  for (const parsed of parseSearchQuery(query)) {
+    let term = parsed;
+    let columns: number[] | null = null;
+    if (term.column !== null) {
+      const index = names.indexOf(term.column.toLowerCase());
+      if (index >= 0) columns = [index];
+      else term = { ...term, column: null, kind: "text", value: term.raw };
+    }
+    const compiled = compileTerm(term, columns, columnTypes, fuzzy);
+    if (typeof compiled === "string") error = error ?? compiled;
+    else matchers.push(compiled);
+  }
+
+  const looksAt = (m: CellMatcher, column: number) =>
+    !m.columns || m.columns.includes(column);
+  const cellMatches = (
+    m: CellMatcher,
+    row: CellValue[],
+    texts: string[],
+    column: number
+  ) => m.matches(row[column] ?? null, texts[column] ?? "", column);
+
+  return {
+    active: matchers.length > 0,
+    error,
+    test: (row, texts) =>
+      matchers.every(
+        (m) =>
+          (m.columns ?? all).some((c) => cellMatches(m, row, texts, c)) !==
+          m.negate
+      ),
+    matchingColumns: (row, texts) =>
+      all.filter((c) =>
+        matchers.some(
+          (m) => !m.negate && looksAt(m, c) && cellMatches(m, row, texts, c)
+        )
+      ),
+    highlight: (value, text, column) => {
+      const indexed = searchText(value, columnTypes[column]);
+      return mergeRanges(
+        matchers.flatMap((m) => {
+          if (m.negate || !looksAt(m, column)) return [];
+          const ranges = m.ranges(value, text, column);
+          const hidden =
+            !ranges.length && text && m.matches(value, indexed, column);
+          return hidden ? [[0, text.length]] : ranges;
+        })
+      );
+    }
+  };
+}
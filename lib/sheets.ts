@@ -0,0 +1,10 @@
+import type { ParsedSheet } from "./types";
+
+/** `base`, or `base (2)`, `base (3)`… if a sheet with that name exists. */
+export function uniqueSheetName(sheets: ParsedSheet[], base: string): string {
+  const taken = new Set(sheets.map((s) => s.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
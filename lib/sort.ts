@@ -0,0 +1,94 @@
+import type { CellValue, ColumnType } from "./types";
+import { isEmptyCell, toNumber, toTimestamp } from "./values";
+
+export type SortDirection = "asc" | "desc";
+
+export type SortKey = {
+  column: number;
+  direction: SortDirection;
+};
+
+/**
+ * Applies a header click to the sort keys. A plain click makes the column
+ * the only key (cycling asc → desc → off); a shift-click adds it as the
+ * next key, or cycles it in place if it is already part of the sort.
+ */
+export function nextSortKeys(
+  keys: SortKey[],
+  column: number,
+  additive: boolean
+): SortKey[] {
+  const existing = keys.find((k) => k.column === column);
+
+  if (!additive) {
+    if (!existing || keys.length > 1) return [{ column, direction: "asc" }];
+    return existing.direction === "asc" ? [{ column, direction: "desc" }] : [];
+  }
+
+  if (!existing) return [...keys, { column, direction: "asc" }];
+  if (existing.direction === "asc") {
+    return keys.map((k) =>
+      k.column === column ? { column, direction: "desc" } : k
+    );
+  }
+  return keys.filter((k) => k.column !== column);
+}
+
+// Precomputed sort key for one cell. Empty cells rank lowest, then values
+// that parse as the column's type, then anything that doesn't (e.g. "n/a"
+// in a numeric column), which falls back to text ordering.
+type CellKey = { rank: 0 | 1 | 2; num: number; text: string };
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base"
+});
+
+function cellKey(value: CellValue | undefined, type: ColumnType): CellKey {
+  if (isEmptyCell(value)) return { rank: 0, num: 0, text: "" };
+  const text = String(value);
+
+  if (type === "numeric" || type === "date") {
+    const num = type === "numeric" ? toNumber(value) : toTimestamp(value);
+    return Number.isNaN(num)
+      ? { rank: 2, num: 0, text }
+      : { rank: 1, num, text };
+  }
+  return { rank: 1, num: 0, text };
+}
+
+function compareKeys(a: CellKey, b: CellKey, type: ColumnType): number {
+  if (a.rank !== b.rank) return a.rank - b.rank;
+  if (a.rank === 1 && (type === "numeric" || type === "date")) {
+    return a.num - b.num;
+  }
+  return collator.compare(a.text, b.text);
+}
+
+/**
+ * Sorts rows by several keys using comparators chosen from the column
+ * types. Ties on every key keep the incoming row order.
+ */
+export function sortRows(
+  rows: CellValue[][],
+  keys: SortKey[],
+  columnTypes: ColumnType[]
+): CellValue[][] {
+  if (!keys.length) return rows;
+
+  const types = keys.map((k) => columnTypes[k.column] ?? "unknown");
+  const cellKeys = keys.map((k, i) =>
+    rows.map((row) => cellKey(row[k.column], types[i]))
+  );
+
+  const order = rows.map((_, i) => i);
+  order.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const cmp = compareKeys(cellKeys[i][a], cellKeys[i][b], types[i]);
+      if (cmp !== 0) return keys[i].direction === "asc" ? cmp : -cmp;
+    }
+    return a - b;
+  });
+
+  return order.map((i) => rows[i]);
+}
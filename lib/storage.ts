@@ -0,0 +1,200 @@
+import type { ParsedSheet } from "./types";
+import type { SheetView } from "./viewState";
+import type { EditHistory } from "./edits";
+
+/** Metadata and view state of a saved workbook (everything but the rows). */
+export type StoredSession = {
+  id: string;
+  fileName: string;
+  savedAt: number;
+  // Estimated size of the sheets in bytes
+  size: number;
+  sheetCount: number;
+  activeSheetIndex: number;
+  // Keyed by sheet name
+  views: Record<string, SheetView>;
+  edits: Record<string, EditHistory>;
+};
+
+type StoredSheets = { id: string; sheets: ParsedSheet[] };
+
+// `reason` explains why a workbook was not saved
+export type SaveResult = { saved: boolean; reason?: string };
+
+const DB_NAME = "excel-visualizer";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const SHEETS = "sheets";
+
+// Kept small on purpose: uploads often contain sensitive data
+export const MAX_RECENT_FILES = 5;
+export const MAX_WORKBOOK_BYTES = 50 * 1024 * 1024;
+export const MAX_TOTAL_BYTES = 150 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SHEETS)) {
+          db.createObjectStore(SHEETS, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Rough in-memory size of the sheets (UTF-16 strings, 8-byte numbers). Cheap
+ * enough to run on every save, unlike serializing the whole workbook.
+ */
+export function estimateSize(sheets: ParsedSheet[]): number {
+  let bytes = 0;
+  for (const sheet of sheets) {
+    for (const header of sheet.headers) bytes += header.length * 2;
+    for (const row of sheet.rows) {
+      for (const cell of row) {
+        bytes += typeof cell === "string" ? cell.length * 2 : 8;
+      }
+    }
+  }
+  return bytes;
+}
+
+export function createWorkbookId() {
+  return `wb-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+/** Saved workbooks, most recently saved first. */
+export async function listSessions(): Promise<StoredSession[]> {
+  const db = await openDb();
+  const sessions = await promisify<StoredSession[]>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+  );
+  return sessions.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function loadWorkbook(
+  id: string
+): Promise<{ session: StoredSession; sheets: ParsedSheet[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SHEETS]);
+  const [session, stored] = await Promise.all([
+    promisify<StoredSession | undefined>(tx.objectStore(SESSIONS).get(id)),
+    promisify<StoredSheets | undefined>(tx.objectStore(SHEETS).get(id))
+  ]);
+  if (!session || !stored) return null;
+  return { session, sheets: stored.sheets };
+}
+
+/**
+ * Saves the rows and session of a workbook, then evicts the oldest saved
+ * workbooks beyond the count/size limits. Workbooks over the per-file limit
+ * are not stored at all.
+ */
+export async function saveWorkbook(
+  session: StoredSession,
+  sheets: ParsedSheet[]
+): Promise<SaveResult> {
+  if (session.size > MAX_WORKBOOK_BYTES) {
+    return {
+      saved: false,
+      reason: `Too large to keep locally (limit ${formatBytes(
+        MAX_WORKBOOK_BYTES
+      )}).`
+    };
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SHEETS], "readwrite");
+  tx.objectStore(SESSIONS).put(session);
+  tx.objectStore(SHEETS).put({ id: session.id, sheets } as StoredSheets);
+  await completed(tx);
+
+  await evictOldSessions(session.id);
+  return { saved: true };
+}
+
+/** Updates view state only; the rows are left untouched. */
+export async function saveSession(session: StoredSession): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  // Don't resurrect a workbook that was deleted or evicted meanwhile
+  const existing = await promisify(store.getKey(session.id));
+  if (existing !== undefined) store.put(session);
+  await completed(tx);
+}
+
+async function evictOldSessions(keepId: string) {
+  const sessions = await listSessions();
+  let total = 0;
+  const evicted: string[] = [];
+  sessions.forEach((session, i) => {
+    total += session.size;
+    if (
+      session.id !== keepId &&
+      (i >= MAX_RECENT_FILES || total > MAX_TOTAL_BYTES)
+    ) {
+      evicted.push(session.id);
+      total -= session.size;
+    }
+  });
+  for (const id of evicted) await deleteWorkbook(id);
+}
+
+export async function deleteWorkbook(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SHEETS], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(SHEETS).delete(id);
+  await completed(tx);
+}
+
+export async function clearStorage(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SHEETS], "readwrite");
+  tx.objectStore(SESSIONS).clear();
+  tx.objectStore(SHEETS).clear();
+  await completed(tx);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,133 @@
+import { formatIsoDate } from "./values";
+
+export type TimeInterval = "day" | "week" | "month" | "quarter" | "year";
+
+export const TIME_INTERVALS: { value: TimeInterval; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "quarter", label: "Quarter" },
+  { value: "year", label: "Year" }
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the period containing `timestamp`, in UTC like the parsed dates.
+ * Weeks start on Monday.
+ */
+export function periodStart(timestamp: number, interval: TimeInterval): number {
+  const date = new Date(timestamp);
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  switch (interval) {
+    case "day":
+      return Date.UTC(y, m, date.getUTCDate());
+    case "week":
+      return (
+        Date.UTC(y, m, date.getUTCDate()) - ((date.getUTCDay() + 6) % 7) * DAY
+      );
+    case "month":
+      return Date.UTC(y, m, 1);
+    case "quarter":
+      return Date.UTC(y, m - (m % 3), 1);
+    case "year":
+      return Date.UTC(y, 0, 1);
+  }
+}
+
+/** Start of the period after the one starting at `start`. */
+export function nextPeriod(start: number, interval: TimeInterval): number {
+  const date = new Date(start);
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  switch (interval) {
+    case "day":
+      return start + DAY;
+    case "week":
+      return start + 7 * DAY;
+    case "month":
+      return Date.UTC(y, m + 1, 1);
+    case "quarter":
+      return Date.UTC(y, m + 3, 1);
+    case "year":
+      return Date.UTC(y + 1, 0, 1);
+  }
+}
+
+/** "2024-03-05", "2024-W10", "2024-03", "2024-Q1" or "2024". */
+export function periodLabel(start: number, interval: TimeInterval): string {
+  const date = new Date(start);
+  const y = date.getUTCFullYear();
+  switch (interval) {
+    case "day":
+      return formatIsoDate(start);
+    case "week": {
+      // ISO week: numbered by the year its Thursday falls in
+      const thursday = new Date(start + 3 * DAY);
+      const year = thursday.getUTCFullYear();
+      const week =
+        Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY)) + 1;
+      return `${year}-W${String(week).padStart(2, "0")}`;
+    }
+    case "month":
+      return `${y}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+    case "quarter":
+      return `${y}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+    case "year":
+      return String(y);
+  }
+}
+
+/**
+ * Trailing mean over `window` periods, skipping gaps; null until a full
+ * window of periods has passed.
+ */
+export function movingAverage(
+  values: (number | null)[],
+  window: number
+): (number | null)[] {
+  return values.map((_, i) => {
+    if (i < window - 1) return null;
+    const known = values
+      .slice(i - window + 1, i + 1)
+      .filter((v): v is number => v !== null);
+    return known.length
+      ? known.reduce((sum, v) => sum + v, 0) / known.length
+      : null;
+  });
+}
+
+/**
+ * Least-squares straight line through the known values, by period index.
+ * Null everywhere when fewer than two values are known.
+ */
+export function linearTrend(values: (number | null)[]): (number | null)[] {
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  values.forEach((y, x) => {
+    if (y === null) return;
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  });
+  const denominator = n * sumXX - sumX * sumX;
+  if (n < 2 || denominator === 0) return values.map(() => null);
+  const slope = (n * sumXY - sumX * sumY) / denominator;
+  const intercept = (sumY - slope * sumX) / n;
+  return values.map((_, x) => intercept + slope * x);
+}
+
+/** Change from the previous period, as a fraction (0.1 = +10%). */
+export function periodChange(values: (number | null)[]): (number | null)[] {
+  return values.map((value, i) => {
+    const previous = i > 0 ? values[i - 1] : null;
+    if (value === null || previous === null || previous === 0) return null;
+    return (value - previous) / Math.abs(previous);
+  });
+}
@@ -0,0 +1,48 @@
+export type CellValue = string | number | null;
+
+// Number format hint read from the workbook's cell formats
+export type ColumnFormat = "date" | "percent" | "currency" | null;
+
+// Rows the headers were built from, kept so the header row can be changed later
+export type HeaderSource = {
+  // Sheet rows from the top down to the last header row
+  rows: CellValue[][];
+  // Index into `rows` of the first header row, and how many rows it spans
+  headerRow: number;
+  depth: number;
+  detectedRow: number;
+  detectedDepth: number;
+  // Sheet row number (1-based, as Excel shows it) of rows[0]
+  firstRow: number;
+};
+
+// How Excel showed a cell, kept next to its typed value
+export type CellDetail = {
+  // Formatted text (`w`), when it differs from the plain value
+  text?: string;
+  // "=SUM(B2:B9)"
+  formula?: string;
+  link?: string;
+};
+
+// Column whose values come from an expression over the other columns
+export type ComputedColumn = {
+  name: string;
+  expression: string;
+};
+
+export type ParsedSheet = {
+  name: string;
+  headers: string[];
+  rows: CellValue[][];
+  // One entry per header; absent for sheets that weren't read from a workbook
+  columnFormats?: ColumnFormat[];
+  // Absent for derived sheets (pivot exports etc.)
+  headerSource?: HeaderSource;
+  // Workbook cell details, keyed by cellKey(row, column) of the data rows
+  cells?: Record<string, CellDetail>;
+  // Computed columns, stored (with their values) as the last columns
+  computed?: ComputedColumn[];
+};
+
+export type ColumnType = "numeric" | "categorical" | "date" | "unknown";
@@ -0,0 +1,303 @@
+import type { ParsedSheet } from "./types";
+import type { SortDirection } from "./sort";
+import type { ChartAggregation, ChartConfig, ChartType } from "./charts";
+import { CHART_TYPES } from "./charts";
+import { TIME_INTERVALS, TimeInterval } from "./timeSeries";
+import {
+  ColumnFilter,
+  createFilterId,
+  isFilterOperator,
+  MatchMode
+} from "./filters";
+import type { Aggregation } from "./aggregate";
+import { TABLE_AGGREGATIONS } from "./grouping";
+import { defaultSheetView, SheetView, TabId } from "./viewState";
+
+/**
+ * A view as carried in a shared link. Columns are referenced by header name
+ * rather than index, so links survive reordered columns.
+ */
+export type LinkedView = {
+  sheet: string;
+  searchQuery: string;
+  sortKeys: { column: string; direction: SortDirection }[];
+  hidden: string[];
+  groupBy: string[];
+  totals: { column: string; aggregation: Aggregation }[];
+  activeTab: TabId | null;
+  chart: {
+    type: ChartType;
+    category: string | null;
+    value: string | null;
+    series: string | null;
+    aggregation: ChartAggregation | null;
+    topN: number | null;
+    interval: TimeInterval | null;
+    movingAverage: number | null;
+    trend: boolean;
+  } | null;
+  filters: LinkedFilters | null;
+};
+
+// FilterState with header names in place of column indexes
+type LinkedFilters = {
+  mode: MatchMode;
+  groups: {
+    id: string;
+    mode: MatchMode;
+    filters: (Omit<ColumnFilter, "column"> & { column: string })[];
+  }[];
+};
+
+const TABS: TabId[] = ["table", "insights", "pivot", "profile"];
+const AGGREGATIONS: ChartAggregation[] = ["sum", "avg", "count", "min", "max"];
+
+function columnName(sheet: ParsedSheet, index: number | null) {
+  if (index === null) return null;
+  return sheet.headers[index] || `Column ${index + 1}`;
+}
+
+/** URL hash (without "#") describing the sheet's current view. */
+export function encodeViewHash(sheet: ParsedSheet, view: SheetView): string {
+  const params = new URLSearchParams();
+  params.set("sheet", sheet.name);
+  if (view.activeTab !== "table") params.set("tab", view.activeTab);
+  if (view.searchQuery) params.set("q", view.searchQuery);
+
+  view.sortKeys.forEach((key) =>
+    params.append("sort", `${key.direction}:${columnName(sheet, key.column)}`)
+  );
+  view.columnVisibility.forEach((visible, i) => {
+    if (!visible) params.append("hide", columnName(sheet, i)!);
+  });
+  view.groupBy.forEach((column) =>
+    params.append("group", columnName(sheet, column)!)
+  );
+  Object.entries(view.columnAggregates).forEach(([column, aggregation]) =>
+    params.append(
+      "total",
+      `${aggregation}:${columnName(sheet, Number(column))}`
+    )
+  );
+
+  if (view.filters.groups.length) {
+    const linked: LinkedFilters = {
+      mode: view.filters.mode,
+      groups: view.filters.groups.map((group) => ({
+        ...group,
+        filters: group.filters.map((f) => ({
+          ...f,
+          column: columnName(sheet, f.column)!
+        }))
+      }))
+    };
+    params.set("filters", JSON.stringify(linked));
+  }
+
+  const chart = view.chartConfig;
+  if (chart.category !== null || chart.value !== null) {
+    params.set("chart", chart.type);
+    const x = columnName(sheet, chart.category);
+    const y = columnName(sheet, chart.value);
+    const split = columnName(sheet, chart.series);
+    if (x !== null) params.set("x", x);
+    if (y !== null) params.set("y", y);
+    if (split !== null) params.set("split", split);
+    params.set("agg", chart.aggregation);
+    params.set("top", String(chart.topN));
+    if (chart.type === "timeSeries") {
+      params.set("per", chart.interval);
+      if (chart.movingAverage) params.set("ma", String(chart.movingAverage));
+      if (chart.trend) params.set("trend", "1");
+    }
+  }
+
+  return params.toString();
+}
+
+const isMode = (value: unknown): value is MatchMode =>
+  value === "and" || value === "or";
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/**
+ * Checks the shape of a link's filters, dropping conditions and groups that
+ * aren't usable (hand-edited or older links); null when nothing is left.
+ */
+function readLinkedFilters(data: any): LinkedFilters | null {
+  if (!isMode(data?.mode) || !Array.isArray(data.groups)) return null;
+  const groups: LinkedFilters["groups"] = [];
+  for (const group of data.groups) {
+    if (!isMode(group?.mode) || !Array.isArray(group.filters)) continue;
+    const filters = group.filters.flatMap((f: any) =>
+      typeof f?.column === "string" && isFilterOperator(f.operator)
+        ? [
+            {
+              id: typeof f.id === "string" ? f.id : createFilterId(),
+              column: f.column,
+              operator: f.operator,
+              value: typeof f.value === "string" ? f.value : "",
+              valueTo: typeof f.valueTo === "string" ? f.valueTo : "",
+              values: isStringList(f.values) ? f.values : []
+            }
+          ]
+        : []
+    );
+    if (filters.length) {
+      groups.push({
+        id: typeof group.id === "string" ? group.id : createFilterId("g"),
+        mode: group.mode,
+        filters
+      });
+    }
+  }
+  return groups.length ? { mode: data.mode, groups } : null;
+}
+
+/** Reads a hash written by `encodeViewHash`; null when it names no sheet. */
+export function parseViewHash(hash: string): LinkedView | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const sheet = params.get("sheet");
+  if (!sheet) return null;
+
+  const sortKeys: LinkedView["sortKeys"] = [];
+  params.getAll("sort").forEach((entry) => {
+    // "desc:Amount" -- header names may contain ":" themselves
+    const split = entry.indexOf(":");
+    const direction = entry.slice(0, split);
+    if (direction === "asc" || direction === "desc") {
+      sortKeys.push({ column: entry.slice(split + 1), direction });
+    }
+  });
+
+  const totals: LinkedView["totals"] = [];
+  params.getAll("total").forEach((entry) => {
+    const split = entry.indexOf(":");
+    const aggregation = entry.slice(0, split) as Aggregation;
+    if (TABLE_AGGREGATIONS.some((a) => a.value === aggregation)) {
+      totals.push({ column: entry.slice(split + 1), aggregation });
+    }
+  });
+
+  const tab = params.get("tab") as TabId | null;
+  const chartType = params.get("chart") as ChartType | null;
+  const aggregation = params.get("agg") as ChartAggregation | null;
+  const topN = Number(params.get("top"));
+  const interval = params.get("per") as TimeInterval | null;
+  const movingAverage = Number(params.get("ma"));
+
+  let filters: LinkedFilters | null = null;
+  try {
+    const raw = params.get("filters");
+    if (raw) filters = readLinkedFilters(JSON.parse(raw));
+  } catch {
+    // A mangled link just loses its filters
+  }
+
+  return {
+    sheet,
+    searchQuery: params.get("q") ?? "",
+    sortKeys,
+    hidden: params.getAll("hide"),
+    groupBy: params.getAll("group"),
+    totals,
+    activeTab: tab && TABS.includes(tab) ? tab : null,
+    chart:
+      chartType && CHART_TYPES.some((t) => t.value === chartType)
+        ? {
+            type: chartType,
+            category: params.get("x"),
+            value: params.get("y"),
+            series: params.get("split"),
+            aggregation:
+              aggregation && AGGREGATIONS.includes(aggregation)
+                ? aggregation
+                : null,
+            topN: topN > 0 ? topN : null,
+            interval:
+              interval && TIME_INTERVALS.some((t) => t.value === interval)
+                ? interval
+                : null,
+            movingAverage: movingAverage > 0 ? movingAverage : null,
+            trend: params.get("trend") === "1"
+          }
+        : null,
+    filters
+  };
+}
+
+/**
+ * Maps a linked view onto the loaded sheets by sheet and header name.
+ * Columns the sheet doesn't have are dropped; null when the sheet is missing.
+ */
+export function resolveLinkedView(
+  link: LinkedView,
+  sheets: ParsedSheet[]
+): { index: number; view: SheetView } | null {
+  const index = sheets.findIndex((s) => s.name === link.sheet);
+  if (index < 0) return null;
+  const sheet = sheets[index];
+
+  const names = sheet.headers.map((_, i) => columnName(sheet, i)!);
+  const find = (name: string | null) => {
+    if (name === null) return null;
+    const i = names.indexOf(name);
+    return i >= 0 ? i : null;
+  };
+
+  const view = defaultSheetView(sheet);
+  view.searchQuery = link.searchQuery;
+  view.sortKeys = link.sortKeys.flatMap((key) => {
+    const column = find(key.column);
+    return column === null ? [] : [{ column, direction: key.direction }];
+  });
+  view.columnVisibility = names.map((name) => !link.hidden.includes(name));
+  view.groupBy = link.groupBy.flatMap((name) => {
+    const column = find(name);
+    return column === null ? [] : [column];
+  });
+  link.totals.forEach((total) => {
+    const column = find(total.column);
+    if (column !== null) view.columnAggregates[column] = total.aggregation;
+  });
+  if (link.activeTab) view.activeTab = link.activeTab;
+
+  if (link.filters) {
+    view.filters = {
+      mode: link.filters.mode,
+      groups: link.filters.groups
+        .map((group) => ({
+          ...group,
+          // Fresh ids, so a hand-edited link can't repeat one
+          id: createFilterId("g"),
+          filters: group.filters.flatMap((f) => {
+            const column = find(f.column);
+            return column === null
+              ? []
+              : [{ ...f, id: createFilterId(), column }];
+          })
+        }))
+        .filter((group) => group.filters.length)
+    };
+  }
+
+  if (link.chart) {
+    const chart: ChartConfig = {
+      ...view.chartConfig,
+      type: link.chart.type,
+      category: find(link.chart.category),
+      value: find(link.chart.value),
+      series: find(link.chart.series)
+    };
+    if (link.chart.aggregation) chart.aggregation = link.chart.aggregation;
+    if (link.chart.topN) chart.topN = link.chart.topN;
+    if (link.chart.interval) chart.interval = link.chart.interval;
+    if (link.chart.movingAverage) {
+      chart.movingAverage = link.chart.movingAverage;
+    }
+    chart.trend = link.chart.trend;
+    view.chartConfig = chart;
+  }
+
+  return { index, view };
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Follows `value` once it has stopped changing for `delay` ms. A delay of 0
+ * passes the value straight through, so small inputs don't lag.
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    if (delay <= 0) return;
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return delay <= 0 ? value : debounced;
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+
+export type VirtualWindow = {
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+};
+
+/**
+ * Computes which slice of a fixed-height row list is visible inside a
+ * scroll container. Only that slice (plus `overscan` rows on each side)
+ * needs to be rendered; the rest is represented by top/bottom padding so
+ * the scrollbar still reflects the full row count.
+ *
+ * Takes the element itself (from a callback ref) rather than a ref object
+ * so measuring restarts whenever the container mounts or remounts.
+ */
+export function useVirtualRows(
+  container: HTMLElement | null,
+  rowCount: number,
+  rowHeight: number,
+  overscan = 12
+): VirtualWindow {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      setScrollTop(el.scrollTop);
+      setViewportHeight(el.clientHeight);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    el.addEventListener("scroll", schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(el);
+
+    return () => {
+      el.removeEventListener("scroll", schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [container]);
+
+  const visibleCount = Math.ceil(viewportHeight / rowHeight);
+  const start = Math.max(
+    0,
+    Math.min(Math.floor(scrollTop / rowHeight), rowCount) - overscan
+  );
+  const end = Math.min(rowCount, start + visibleCount + overscan * 2);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (rowCount - end) * rowHeight
+  };
+}
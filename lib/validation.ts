@@ -0,0 +1,322 @@
+import type { CellValue, ColumnType, ParsedSheet } from "./types";
+import { isEmptyCell, parseDateString, toNumber, toTimestamp } from "./values";
+import { cellKey } from "./edits";
+import { createId } from "./ids";
+
+export type ValidationKind =
+  | "required"
+  | "pattern"
+  | "min"
+  | "max"
+  | "unique"
+  | "oneOf";
+
+export type ValidationRule = {
+  id: string;
+  // Header name rather than index, so a rule set works on every upload
+  column: string;
+  kind: ValidationKind;
+  // Regex for "pattern", bound for "min"/"max" (number or date)
+  value: string;
+  // Allowed values for "oneOf"
+  values: string[];
+};
+
+// A rule set file, meant to be committed next to the data's pipeline
+export type RuleSet = {
+  version: 1;
+  rules: Omit<ValidationRule, "id">[];
+};
+
+export type ValidationIssue = {
+  // Index into ParsedSheet.rows
+  row: number;
+  column: number;
+  ruleId: string;
+  message: string;
+};
+
+export type RuleOutcome = {
+  rule: ValidationRule;
+  // Column index, or null when the sheet has no such column
+  column: number | null;
+  checked: number;
+  failed: number;
+};
+
+export type ValidationResult = {
+  issues: ValidationIssue[];
+  // Messages per cellKey(row, column), for badges in the grid
+  byCell: Map<string, string[]>;
+  outcomes: RuleOutcome[];
+  rowCount: number;
+  failingRows: number;
+};
+
+const KINDS_BY_TYPE: Record<
+  ColumnType,
+  { value: ValidationKind; label: string }[]
+> = {
+  numeric: [
+    { value: "min", label: "is ≥" },
+    { value: "max", label: "is ≤" },
+    { value: "required", label: "is not blank" },
+    { value: "unique", label: "is unique" },
+    { value: "oneOf", label: "is one of" }
+  ],
+  date: [
+    { value: "min", label: "is on or after" },
+    { value: "max", label: "is on or before" },
+    { value: "required", label: "is not blank" },
+    { value: "unique", label: "is unique" }
+  ],
+  categorical: [
+    { value: "oneOf", label: "is one of" },
+    { value: "required", label: "is not blank" },
+    { value: "unique", label: "is unique" },
+    { value: "pattern", label: "matches pattern" }
+  ],
+  unknown: [
+    { value: "pattern", label: "matches pattern" },
+    { value: "required", label: "is not blank" },
+    { value: "unique", label: "is unique" },
+    { value: "oneOf", label: "is one of" }
+  ]
+};
+
+export function validationKindsForType(type: ColumnType | undefined) {
+  return KINDS_BY_TYPE[type ?? "unknown"];
+}
+
+export function createValidationRule(
+  column: string,
+  type: ColumnType | undefined
+): ValidationRule {
+  return {
+    id: createId("v"),
+    column,
+    kind: validationKindsForType(type)[0].value,
+    value: "",
+    values: []
+  };
+}
+
+// Bounds are compared as dates in date columns and as numbers otherwise
+function bound(rule: ValidationRule, type: ColumnType | undefined) {
+  return type === "date"
+    ? parseDateString(rule.value)
+    : toNumber(rule.value.trim());
+}
+
+function comparable(value: CellValue, type: ColumnType | undefined) {
+  return type === "date" ? toTimestamp(value) : toNumber(value);
+}
+
+/** Returns an error message when the rule's operand can't be used. */
+export function validationRuleError(
+  rule: ValidationRule,
+  type: ColumnType | undefined
+): string | null {
+  switch (rule.kind) {
+    case "min":
+    case "max":
+      if (!Number.isNaN(bound(rule, type))) return null;
+      return type === "date"
+        ? "Enter a date, e.g. 2024-01-31"
+        : "Enter a number";
+    case "pattern":
+      if (!rule.value) return "Enter a pattern";
+      try {
+        new RegExp(rule.value);
+        return null;
+      } catch {
+        return "Invalid regular expression";
+      }
+    case "oneOf":
+      return rule.values.length ? null : "List the allowed values";
+    default:
+      return null;
+  }
+}
+
+/** "Amount is ≥ 0", in the column type's wording. */
+export function describeValidationRule(
+  rule: ValidationRule,
+  type: ColumnType | undefined
+): string {
+  const label =
+    validationKindsForType(type).find((k) => k.value === rule.kind)?.label ??
+    rule.kind;
+  switch (rule.kind) {
+    case "min":
+    case "max":
+      return `${rule.column} ${label} ${rule.value}`;
+    case "pattern":
+      return `${rule.column} ${label} /${rule.value}/`;
+    case "oneOf":
+      return `${rule.column} ${label} ${rule.values.join(", ")}`;
+    default:
+      return `${rule.column} ${label}`;
+  }
+}
+
+// "one of" ignores case and surrounding spaces
+const normalise = (value: CellValue) => String(value).trim().toLowerCase();
+
+// Returns the failure message for a cell, or null when it passes
+function cellCheck(
+  rule: ValidationRule,
+  rows: CellValue[][],
+  column: number,
+  type: ColumnType | undefined
+): (value: CellValue) => string | null {
+  switch (rule.kind) {
+    case "required":
+      return (value) => (isEmptyCell(value) ? "Must not be blank" : null);
+    case "pattern": {
+      const pattern = new RegExp(rule.value);
+      return (value) =>
+        isEmptyCell(value) || pattern.test(String(value))
+          ? null
+          : `Doesn't match /${rule.value}/`;
+    }
+    case "min":
+    case "max": {
+      const limit = bound(rule, type);
+      const atLeast = rule.kind === "min";
+      const what = type === "date" ? "a date" : "a number";
+      return (value) => {
+        if (isEmptyCell(value)) return null;
+        const n = comparable(value, type);
+        if (Number.isNaN(n)) return `Not ${what}`;
+        if (atLeast ? n >= limit : n <= limit) return null;
+        if (type === "date") {
+          return `Must be on or ${atLeast ? "after" : "before"} ${rule.value}`;
+        }
+        return `Must be ${atLeast ? "≥" : "≤"} ${rule.value}`;
+      };
+    }
+    case "unique": {
+      const counts = new Map<string, number>();
+      for (const row of rows) {
+        if (isEmptyCell(row[column])) continue;
+        const key = normalise(row[column]);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      return (value) => {
+        if (isEmptyCell(value)) return null;
+        const count = counts.get(normalise(value)) ?? 0;
+        return count > 1 ? `Appears ${count} times` : null;
+      };
+    }
+    case "oneOf": {
+      const allowed = new Set(rule.values.map(normalise));
+      return (value) =>
+        isEmptyCell(value) || allowed.has(normalise(value))
+          ? null
+          : "Not an allowed value";
+    }
+  }
+}
+
+/**
+ * Checks every row of the sheet against the rules. Blank cells only fail
+ * "not blank"; rules on a column the sheet lacks, or with an unusable
+ * operand, are reported with nothing checked.
+ */
+export function validateSheet(
+  sheet: ParsedSheet,
+  rules: ValidationRule[],
+  columnTypes: ColumnType[]
+): ValidationResult {
+  const names = sheet.headers.map((h, i) =>
+    (h || `Column ${i + 1}`).toLowerCase()
+  );
+  const issues: ValidationIssue[] = [];
+  const byCell = new Map<string, string[]>();
+  const rowsWithIssues = new Set<number>();
+
+  const outcomes = rules.map((rule): RuleOutcome => {
+    const index = names.indexOf(rule.column.toLowerCase());
+    const column = index >= 0 ? index : null;
+    const outcome: RuleOutcome = { rule, column, checked: 0, failed: 0 };
+    if (column === null) return outcome;
+    const type = columnTypes[column];
+    if (validationRuleError(rule, type)) return outcome;
+
+    const check = cellCheck(rule, sheet.rows, column, type);
+    sheet.rows.forEach((row, r) => {
+      outcome.checked++;
+      const message = check(row[column] ?? null);
+      if (!message) return;
+      outcome.failed++;
+      rowsWithIssues.add(r);
+      issues.push({ row: r, column, ruleId: rule.id, message });
+      const key = cellKey(r, column);
+      const messages = byCell.get(key);
+      if (messages) messages.push(message);
+      else byCell.set(key, [message]);
+    });
+    return outcome;
+  });
+
+  issues.sort((a, b) => a.row - b.row || a.column - b.column);
+  return {
+    issues,
+    byCell,
+    outcomes,
+    rowCount: sheet.rows.length,
+    failingRows: rowsWithIssues.size
+  };
+}
+
+/** Pretty-printed JSON for a rule set file. */
+export function ruleSetToJson(rules: ValidationRule[]): string {
+  const set: RuleSet = {
+    version: 1,
+    rules: rules.map(({ id, ...rule }) => rule)
+  };
+  return JSON.stringify(set, null, 2);
+}
+
+const KINDS: ValidationKind[] = [
+  "required",
+  "pattern",
+  "min",
+  "max",
+  "unique",
+  "oneOf"
+];
+
+/** Rules of a rule set file with fresh ids, or null when it isn't one. */
+export function parseRuleSet(text: string): ValidationRule[] | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.version !== 1 || !Array.isArray(data.rules)) return null;
+    const rules: ValidationRule[] = [];
+    for (const raw of data.rules) {
+      if (
+        typeof raw?.column !== "string" ||
+        !KINDS.includes(raw.kind) ||
+        (raw.value !== undefined && typeof raw.value !== "string") ||
+        (raw.values !== undefined &&
+          !(
+            Array.isArray(raw.values) &&
+            raw.values.every((v: unknown) => typeof v === "string")
+          ))
+      ) {
+        return null;
+      }
+      rules.push({
+        id: createId("v"),
+        column: raw.column,
+        kind: raw.kind,
+        value: raw.value ?? "",
+        values: raw.values ?? []
+      });
+    }
+    return rules;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,172 @@
+import type { CellValue, ColumnFormat, ColumnType } from "./types";
+
+export function isEmptyCell(value: CellValue | undefined): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+const CURRENCY_SYMBOLS = /[$€£¥₹]/g;
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Parses numbers as people type them in spreadsheets: currency symbols,
+ * thousands separators, "(123)" negatives, trailing percent signs and
+ * comma decimals ("1.234,5"). Returns NaN for anything else.
+ */
+export function parseNumber(raw: string): number {
+  let s = raw.replace(/\s/g, "");
+  if (!s) return NaN;
+
+  let negative = false;
+  if (s.startsWith("(") && s.endsWith(")")) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  let percent = false;
+  if (s.endsWith("%")) {
+    percent = true;
+    s = s.slice(0, -1);
+  }
+  s = s.replace(CURRENCY_SYMBOLS, "");
+
+  // Whichever separator comes last is the decimal point
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    s =
+      lastComma > lastDot
+        ? s.replace(/\./g, "").replace(",", ".")
+        : s.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    // "1,234" / "1,234,567" are thousands; "12,5" is a decimal comma
+    s = /^[-+]?\d{1,3}(,\d{3})+$/.test(s)
+      ? s.replace(/,/g, "")
+      : s.replace(",", ".");
+  } else if (/^[-+]?\d{1,3}(\.\d{3}){2,}$/.test(s)) {
+    // "1.234.567" can only be thousands
+    s = s.replace(/\./g, "");
+  }
+
+  if (!PLAIN_NUMBER.test(s)) return NaN;
+  let n = Number(s);
+  if (negative) n = -n;
+  if (percent) n /= 100;
+  return n;
+}
+
+/** Numeric value of a cell, or NaN when it isn't a number. */
+export function toNumber(value: CellValue | undefined): number {
+  if (typeof value === "number") return value;
+  if (isEmptyCell(value)) return NaN;
+  return parseNumber(String(value));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days between the Excel epoch (1899-12-30) and 1970-01-01
+const EXCEL_EPOCH_OFFSET = 25569;
+
+/** Epoch milliseconds (UTC) of an Excel date serial number. */
+export function excelSerialToTimestamp(serial: number): number {
+  return Math.round((serial - EXCEL_EPOCH_OFFSET) * DAY_MS);
+}
+
+/** Excel date serial of epoch milliseconds (inverse of the above). */
+export function timestampToExcelSerial(timestamp: number): number {
+  return timestamp / DAY_MS + EXCEL_EPOCH_OFFSET;
+}
+
+/** "YYYY-MM-DD", plus " HH:MM[:SS]" when the time isn't midnight. */
+export function formatIsoDate(timestamp: number): string {
+  const iso = new Date(timestamp).toISOString();
+  const date = iso.slice(0, 10);
+  const time = iso.slice(11, 19);
+  if (time === "00:00:00") return date;
+  return `${date} ${time.endsWith(":00") ? time.slice(0, 5) : time}`;
+}
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?Z?$/;
+const DATE_LIKE = /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/;
+const MONTH_NAME =
+  /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\b/i;
+
+// An explicit zone ("GMT", "UTC", "+01:00") that Date.parse should honour
+const TIME_ZONE = /\b(?:GMT|UTC)\b|[+-]\d{2}:\d{2}$/i;
+
+/**
+ * Parses date text. Dates are read as UTC, like converted Excel serials:
+ * ISO dates directly, other formats by taking the fields `Date.parse` read
+ * in local time. Those need a date-like shape (d/m/y separators or a month
+ * name) first, since `Date.parse` would otherwise accept strings like
+ * "Item 5".
+ */
+export function parseDateString(raw: string): number {
+  const s = raw.trim();
+  const iso = ISO_DATE.exec(s);
+  if (iso) {
+    const [, y, m, d, hh = "0", mm = "0", ss = "0"] = iso;
+    return Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss);
+  }
+  if (!/\d/.test(s) || !(DATE_LIKE.test(s) || MONTH_NAME.test(s))) {
+    return NaN;
+  }
+  const t = Date.parse(s);
+  if (Number.isNaN(t) || TIME_ZONE.test(s)) return t;
+  const d = new Date(t);
+  return Date.UTC(
+    d.getFullYear(),
+    d.getMonth(),
+    d.getDate(),
+    d.getHours(),
+    d.getMinutes(),
+    d.getSeconds(),
+    d.getMilliseconds()
+  );
+}
+
+/**
+ * Epoch milliseconds of a date-like cell, or NaN when it can't be parsed.
+ * Numbers (and numeric text) are treated as Excel date serials.
+ */
+export function toTimestamp(value: CellValue | undefined): number {
+  if (isEmptyCell(value)) return NaN;
+  if (typeof value === "number") return excelSerialToTimestamp(value);
+  const s = String(value);
+  const n = parseNumber(s);
+  if (!Number.isNaN(n)) return excelSerialToTimestamp(n);
+  return parseDateString(s);
+}
+
+/** Display text for a grid cell, formatted by its column's type. */
+export function formatCell(
+  value: CellValue | undefined,
+  type: ColumnType | undefined,
+  format?: ColumnFormat
+): string {
+  if (isEmptyCell(value)) return "—";
+
+  if (type === "numeric") {
+    const n = toNumber(value);
+    if (Number.isNaN(n)) return String(value);
+    if (format === "percent") {
+      return `${(n * 100).toLocaleString(undefined, {
+        maximumFractionDigits: 2
+      })}%`;
+    }
+    if (format === "currency") {
+      return typeof value === "string"
+        ? value
+        : n.toLocaleString(undefined, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2
+          });
+    }
+    return n.toLocaleString();
+  }
+
+  if (type === "date") {
+    const t = toTimestamp(value);
+    return Number.isNaN(t) ? String(value) : formatIsoDate(t);
+  }
+
+  return typeof value === "number" ? value.toLocaleString() : String(value);
+}
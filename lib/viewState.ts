@@ -0,0 +1,138 @@
+import type { ColumnType, ParsedSheet } from "./types";
+import { emptyFilters, FilterState } from "./filters";
+import type { SortKey } from "./sort";
+import { ChartConfig, emptyChartConfig } from "./charts";
+import { emptyPivotConfig, PivotConfig } from "./pivot";
+import type { ColumnAggregates } from "./grouping";
+import type { FormatRule } from "./conditionalFormat";
+import type { ValidationRule } from "./validation";
+
+export type TabId = "table" | "insights" | "pivot" | "profile";
+
+/** Everything the user has set up for one sheet. */
+export type SheetView = {
+  searchQuery: string;
+  sortKeys: SortKey[];
+  filters: FilterState;
+  columnVisibility: boolean[];
+  // Manual column types chosen in the sidebar, keyed by column index
+  typeOverrides: Record<number, ColumnType>;
+  // Table grouping, outermost column first, and the group/footer aggregates
+  groupBy: number[];
+  columnAggregates: ColumnAggregates;
+  // Conditional formatting of the grid, earliest rule first
+  formatRules: FormatRule[];
+  // Data checks; they name their columns, so they carry over as they are
+  validationRules: ValidationRule[];
+  activeTab: TabId;
+  chartConfig: ChartConfig;
+  pivotConfig: PivotConfig;
+};
+
+export function defaultSheetView(sheet: ParsedSheet | undefined): SheetView {
+  return {
+    searchQuery: "",
+    sortKeys: [],
+    filters: emptyFilters,
+    columnVisibility: new Array(sheet?.headers.length ?? 0).fill(true),
+    typeOverrides: {},
+    groupBy: [],
+    columnAggregates: {},
+    formatRules: [],
+    validationRules: [],
+    activeTab: "table",
+    chartConfig: emptyChartConfig,
+    pivotConfig: emptyPivotConfig
+  };
+}
+
+function headerNames(sheet: ParsedSheet) {
+  return sheet.headers.map((h, i) => h || `Column ${i + 1}`);
+}
+
+/** True when both sheets have the same columns, in any order. */
+export function headersMatch(a: ParsedSheet, b: ParsedSheet): boolean {
+  if (a.headers.length !== b.headers.length) return false;
+  const names = (s: ParsedSheet) => [...headerNames(s)].sort().join("\u0000");
+  return names(a) === names(b);
+}
+
+/**
+ * Copies a view from one sheet to another, following each column by header
+ * name. Settings on columns the target lacks are dropped.
+ */
+export function remapView(
+  view: SheetView,
+  from: ParsedSheet,
+  to: ParsedSheet
+): SheetView {
+  const fromNames = headerNames(from);
+  const toNames = headerNames(to);
+  const map = (column: number) => {
+    const i = toNames.indexOf(fromNames[column]);
+    return i >= 0 ? i : null;
+  };
+  const mapAll = (columns: number[]) =>
+    columns.flatMap((c) => {
+      const mapped = map(c);
+      return mapped === null ? [] : [mapped];
+    });
+  const mapOptional = (column: number | null) =>
+    column === null ? null : map(column);
+
+  const typeOverrides: Record<number, ColumnType> = {};
+  Object.entries(view.typeOverrides).forEach(([column, type]) => {
+    const mapped = map(Number(column));
+    if (mapped !== null) typeOverrides[mapped] = type;
+  });
+  const columnAggregates: ColumnAggregates = {};
+  Object.entries(view.columnAggregates).forEach(([column, aggregation]) => {
+    const mapped = map(Number(column));
+    if (mapped !== null) columnAggregates[mapped] = aggregation;
+  });
+
+  return {
+    ...view,
+    sortKeys: view.sortKeys.flatMap((key) => {
+      const column = map(key.column);
+      return column === null ? [] : [{ ...key, column }];
+    }),
+    filters: {
+      ...view.filters,
+      groups: view.filters.groups
+        .map((group) => ({
+          ...group,
+          filters: group.filters.flatMap((f) => {
+            const column = map(f.column);
+            return column === null ? [] : [{ ...f, column }];
+          })
+        }))
+        .filter((group) => group.filters.length)
+    },
+    columnVisibility: toNames.map((name) => {
+      const i = fromNames.indexOf(name);
+      return i < 0 || view.columnVisibility[i] !== false;
+    }),
+    typeOverrides,
+    groupBy: mapAll(view.groupBy),
+    columnAggregates,
+    formatRules: view.formatRules.flatMap((rule) => {
+      const column = map(rule.column);
+      return column === null ? [] : [{ ...rule, column }];
+    }),
+    chartConfig: {
+      ...view.chartConfig,
+      category: mapOptional(view.chartConfig.category),
+      value: mapOptional(view.chartConfig.value),
+      series: mapOptional(view.chartConfig.series)
+    },
+    pivotConfig: {
+      rowFields: mapAll(view.pivotConfig.rowFields),
+      columnFields: mapAll(view.pivotConfig.columnFields),
+      values: view.pivotConfig.values.flatMap((v) => {
+        const column = map(v.column);
+        return column === null ? [] : [{ ...v, column }];
+      })
+    }
+  };
+}
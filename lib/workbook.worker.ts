@@ -0,0 +1,50 @@
+import * as XLSX from "xlsx";
+import {
+  parseWorksheet,
+  WorkbookWorkerRequest,
+  WorkbookWorkerResponse
+} from "./parseWorkbook";
+import { csvToSheet, decodeText } from "./csv";
+import type { ParsedSheet } from "./types";
+
+// Typed view of the dedicated worker scope (the app compiles against the DOM lib)
+const ctx = self as unknown as {
+  postMessage(message: WorkbookWorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkbookWorkerRequest>) => void) | null;
+};
+
+ctx.onmessage = (event) => {
+  try {
+    ctx.postMessage({ type: "progress", progress: { stage: "parsing" } });
+
+    const { csv } = event.data;
+    if (csv) {
+      const text = decodeText(event.data.buffer, csv.options.encoding);
+      const sheet = csvToSheet(csv.sheetName, text, csv.options);
+      ctx.postMessage({ type: "done", sheets: [sheet] });
+      return;
+    }
+
+    const workbook = XLSX.read(new Uint8Array(event.data.buffer), {
+      type: "array",
+      cellNF: true
+    });
+    const total = workbook.SheetNames.length;
+    const sheets: ParsedSheet[] = [];
+
+    workbook.SheetNames.forEach((sheetName, index) => {
+      sheets.push(parseWorksheet(sheetName, workbook.Sheets[sheetName]));
+      ctx.postMessage({
+        type: "progress",
+        progress: { stage: "sheets", done: index + 1, total, sheetName }
+      });
+    });
+
+    ctx.postMessage({ type: "done", sheets });
+  } catch (err: any) {
+    ctx.postMessage({
+      type: "error",
+      message: err?.message ?? "Unknown parse error"
+    });
+  }
+};